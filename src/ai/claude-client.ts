@@ -1,5 +1,6 @@
-import { query } from '@anthropic-ai/claude-code';
+import { query, CanUseTool, PermissionResult, SDKUserMessage } from '@anthropic-ai/claude-code';
 import logger from '../utils/logger';
+import * as path from 'path';
 
 interface ConversationSession {
   userId: string;
@@ -7,18 +8,75 @@ interface ConversationSession {
   lastActivity: Date;
 }
 
+type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+const SUPPORTED_IMAGE_TYPES: string[] = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024; // API limit per image
+
+// The content blocks of a message this client reads. The SDK types them against a newer
+// @anthropic-ai/sdk than this project installs, so they would otherwise resolve to any.
+type TextBlock = { type: 'text'; text: string };
+type ToolUseBlock = { type: 'tool_use'; id: string; name: string; input?: Record<string, unknown> };
+type ToolResultBlock = { type: 'tool_result'; tool_use_id: string; is_error?: boolean };
+type ContentBlock = TextBlock | ToolUseBlock | ToolResultBlock | { type: string };
+
+const isTextBlock = (block: ContentBlock): block is TextBlock => block.type === 'text';
+const isToolUseBlock = (block: ContentBlock): block is ToolUseBlock => block.type === 'tool_use';
+const isToolResultBlock = (block: ContentBlock): block is ToolResultBlock =>
+  block.type === 'tool_result';
+
+// Tools that only look at files; everything else needs the profile's say-so
+export const READ_TOOLS = ['Read', 'Glob', 'Grep', 'LS'];
+export const EDIT_TOOLS = ['Write', 'Edit', 'MultiEdit', 'NotebookEdit'];
+// Shell commands can write anywhere, so they are only available with the full profile
+export const SHELL_TOOLS = ['Bash', 'BashOutput', 'KillShell'];
+// The agent's own to-do list touches no files, so every profile allows it
+const PLANNING_TOOLS = ['TodoWrite'];
+
+export type PermissionProfile = 'read-only' | 'edit-in-website' | 'full';
+
+export interface PermissionOptions {
+  profile: PermissionProfile;
+  websitePath?: string; // the only directory edit-in-website may write to
+  writablePaths?: string[]; // files or directories under websitePath the task locked for writing
+}
+
+export interface ImageInput {
+  base64: string;
+  mimeType: string;
+}
+
+export type AgentEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; tool: string; input: Record<string, unknown> }
+  // isError is set when the call failed or the permission check denied it
+  | { type: 'tool_result'; toolUseId: string; isError: boolean };
+
+export interface StreamOptions {
+  systemPrompt?: string;
+  cwd?: string;
+  images?: ImageInput[];
+  permissions?: PermissionOptions;
+  onEvent?: (event: AgentEvent) => void;
+  abortController?: AbortController; // aborting stops the agent mid-run
+}
+
 export class ClaudeClient {
   private sessions: Map<string, ConversationSession> = new Map();
+  private runQuery: typeof query;
 
-  constructor() {
+  // runQuery stands in for the SDK in tests
+  constructor(runQuery: typeof query = query) {
     // No API key needed - claude-code SDK handles authentication
+    this.runQuery = runQuery;
   }
 
   async sendMessage(
     userId: string,
     message: string,
     systemPrompt?: string,
-    includeHistory: boolean = true
+    includeHistory: boolean = true,
+    permissions: PermissionOptions = { profile: 'read-only' }
   ): Promise<string> {
     try {
       const session = this.sessions.get(userId);
@@ -30,8 +88,8 @@ export class ClaudeClient {
 
       const options: Record<string, unknown> = {
         outputFormat: 'stream-json',
-        permissionMode: 'bypassPermissions',
         cwd: workingDirectory, // Restrict to monorepo directory only
+        ...this.buildPermissionOptions(permissions, workingDirectory),
       };
 
       // Resume session if available and history is requested
@@ -40,7 +98,7 @@ export class ClaudeClient {
         logger.debug('Resuming session', { sessionId: session.sessionId, userId });
       }
 
-      for await (const sdkMessage of query({
+      for await (const sdkMessage of this.runQuery({
         prompt,
         options,
       })) {
@@ -61,7 +119,7 @@ export class ClaudeClient {
         // Collect response text from assistant messages
         if (sdkMessage.type === 'assistant') {
           // Extract text from nested content structure
-          const content = (sdkMessage as any).message?.message?.content || (sdkMessage as any).message?.content;
+          const content = (sdkMessage as any).message?.message?.content || sdkMessage.message.content;
           if (content && Array.isArray(content)) {
             const textParts = content
               .filter((part: any) => part.type === 'text')
@@ -85,49 +143,128 @@ export class ClaudeClient {
 
   async analyzeImage(
     userId: string,
-    _imageData: string,
+    imageData: string,
     mimeType: string,
     prompt: string
   ): Promise<string> {
     try {
-      // Claude Code SDK doesn't have direct image support in the same way
-      // We'll use a workaround by sending the prompt
-      const message = `${prompt}\n\nNote: Image analysis requested with mime type: ${mimeType}`;
-      return await this.sendMessage(userId, message, undefined, false);
+      let response = '';
+      await this.streamResponse(
+        userId,
+        prompt,
+        (chunk) => {
+          response += chunk;
+        },
+        { images: [{ base64: imageData, mimeType }] }
+      );
+      return response;
     } catch (error) {
       logger.error('Error analyzing image with Claude', { error, userId });
       throw error;
     }
   }
 
+  // Images can only be sent as content blocks, which requires the streaming input form.
+  // The SDK closes the CLI's stdin once that input ends, and permission replies travel
+  // over the same stdin, so the input has to stay open until `inputDone` settles.
+  private buildPrompt(
+    text: string,
+    images: ImageInput[] = [],
+    inputDone: Promise<void> = Promise.resolve()
+  ): string | AsyncIterable<SDKUserMessage> {
+    const usable = images.filter((image) => {
+      const size = Buffer.byteLength(image.base64, 'base64');
+      const ok = SUPPORTED_IMAGE_TYPES.includes(image.mimeType) && size <= MAX_IMAGE_BYTES;
+      if (!ok) {
+        logger.warn('Skipping unsupported image', { mimeType: image.mimeType, size });
+      }
+      return ok;
+    });
+
+    if (usable.length === 0) return text;
+
+    const message: SDKUserMessage = {
+      type: 'user',
+      session_id: '',
+      parent_tool_use_id: null,
+      message: {
+        role: 'user',
+        content: [
+          ...usable.map((image) => ({
+            type: 'image' as const,
+            source: {
+              type: 'base64' as const,
+              media_type: image.mimeType as ImageMediaType,
+              data: image.base64,
+            },
+          })),
+          { type: 'text' as const, text },
+        ],
+      },
+    };
+
+    return (async function* () {
+      yield message;
+      await inputDone;
+    })();
+  }
+
   async streamResponse(
     userId: string,
     message: string,
     onChunk: (chunk: string) => void,
-    systemPrompt?: string
+    {
+      systemPrompt,
+      cwd,
+      images,
+      permissions = { profile: 'read-only' },
+      onEvent,
+      abortController,
+    }: StreamOptions = {}
   ): Promise<void> {
+    let endInput: () => void = () => undefined;
+    const inputDone = new Promise<void>((resolve) => {
+      endInput = resolve;
+    });
+
     try {
       const session = this.sessions.get(userId);
-      const prompt = systemPrompt ? `${systemPrompt}\n\n${message}` : message;
+      const prompt = this.buildPrompt(
+        systemPrompt ? `${systemPrompt}\n\n${message}` : message,
+        images,
+        inputDone
+      );
 
-      const workingDirectory = process.env.MONOREPO_PATH || './Fabzen-website';
+      const workingDirectory = cwd || process.env.MONOREPO_PATH || './Fabzen-website';
 
       const options: Record<string, unknown> = {
         outputFormat: 'stream-json',
-        permissionMode: 'bypassPermissions',
         cwd: workingDirectory, // Restrict to monorepo directory only
+        ...this.buildPermissionOptions(permissions, workingDirectory),
       };
 
-      if (session?.sessionId) {
+      if (abortController) {
+        options.abortController = abortController;
+      }
+
+      // Sessions are tied to the directory they ran in, so a task worktree can't
+      // resume (or replace) the user's conversation session
+      const trackSession = !cwd;
+
+      if (trackSession && session?.sessionId) {
         options.resume = session.sessionId;
       }
 
-      for await (const sdkMessage of query({
+      for await (const sdkMessage of this.runQuery({
         prompt,
         options,
       })) {
+        if (sdkMessage.type === 'result') {
+          endInput();
+        }
+
         // Track session ID
-        if (sdkMessage.type === 'system' && sdkMessage.subtype === 'init') {
+        if (trackSession && sdkMessage.type === 'system' && sdkMessage.subtype === 'init') {
           const currentSession = this.sessions.get(userId) || {
             userId,
             lastActivity: new Date(),
@@ -139,14 +276,39 @@ export class ClaudeClient {
         // Stream text chunks from assistant messages
         if (sdkMessage.type === 'assistant') {
           // Extract text from nested content structure
-          const content = (sdkMessage as any).message?.message?.content || (sdkMessage as any).message?.content;
+          const content: ContentBlock[] | undefined =
+            (sdkMessage as any).message?.message?.content || sdkMessage.message.content;
           if (content && Array.isArray(content)) {
-            const textParts = content
-              .filter((part: any) => part.type === 'text')
-              .map((part: any) => part.text);
-            const text = textParts.join('');
+            const text = content
+              .filter(isTextBlock)
+              .map((part) => part.text)
+              .join('');
             if (text) {
               onChunk(text);
+              onEvent?.({ type: 'text', text });
+            }
+
+            for (const part of content.filter(isToolUseBlock)) {
+              onEvent?.({
+                type: 'tool_use',
+                id: part.id,
+                tool: part.name,
+                input: part.input || {},
+              });
+            }
+          }
+        }
+
+        // Tool results come back to the agent as user messages
+        if (sdkMessage.type === 'user') {
+          const content: ContentBlock[] | string | undefined = sdkMessage.message.content;
+          if (content && Array.isArray(content)) {
+            for (const part of content.filter(isToolResultBlock)) {
+              onEvent?.({
+                type: 'tool_result',
+                toolUseId: part.tool_use_id,
+                isError: part.is_error === true,
+              });
             }
           }
         }
@@ -154,9 +316,70 @@ export class ClaudeClient {
     } catch (error) {
       logger.error('Error streaming from Claude', { error, userId });
       throw error;
+    } finally {
+      endInput();
     }
   }
 
+  private buildPermissionOptions(
+    { profile, websitePath, writablePaths }: PermissionOptions,
+    cwd: string
+  ): Record<string, unknown> {
+    if (profile === 'full') {
+      return { permissionMode: 'bypassPermissions' };
+    }
+
+    const deny = (message: string): PermissionResult => ({ behavior: 'deny', message });
+    let canUseTool: CanUseTool;
+
+    if (profile === 'edit-in-website') {
+      if (!websitePath) {
+        throw new Error('The edit-in-website permission profile needs a website path');
+      }
+      const root = path.resolve(cwd, websitePath);
+
+      canUseTool = async (toolName, input) => {
+        if (!EDIT_TOOLS.includes(toolName)) {
+          return deny(`${toolName} is not available for this task. Only read and edit files.`);
+        }
+
+        const target = input.file_path ?? input.notebook_path;
+        const resolved = typeof target === 'string' ? path.resolve(cwd, target) : undefined;
+        if (!resolved || (resolved !== root && !resolved.startsWith(root + path.sep))) {
+          logger.warn('Blocked edit outside website directory', { toolName, target, root });
+          return deny(`Edits are limited to ${root}. Do not modify files outside it.`);
+        }
+
+        // Other tasks may be editing the rest of the website at the same time
+        const writable = writablePaths?.map((p) => path.resolve(root, p));
+        if (
+          writable &&
+          !writable.some((p) => resolved === p || resolved.startsWith(p + path.sep))
+        ) {
+          logger.warn('Blocked edit outside declared files', { toolName, target, writablePaths });
+          return deny(
+            `This task only declared these paths for editing: ${writablePaths!.join(', ')}. ` +
+              'Do not modify other files; mention in your summary if more changes are needed.'
+          );
+        }
+
+        return { behavior: 'allow', updatedInput: input };
+      };
+    } else {
+      canUseTool = async (toolName) => {
+        logger.warn('Blocked tool in read-only session', { toolName });
+        return deny(`${toolName} is not available: this session is read-only.`);
+      };
+    }
+
+    return {
+      permissionMode: 'default',
+      allowedTools: [...READ_TOOLS, ...PLANNING_TOOLS],
+      disallowedTools: profile === 'read-only' ? [...EDIT_TOOLS, ...SHELL_TOOLS] : SHELL_TOOLS,
+      canUseTool,
+    };
+  }
+
   clearHistory(userId: string) {
     this.sessions.delete(userId);
     logger.info('Conversation history cleared', { userId });
@@ -1,6 +1,35 @@
-import { App, LogLevel } from '@slack/bolt';
+import { App, KnownBlock, LogLevel } from '@slack/bolt';
+import { ApprovalStage, ApprovalWorkflow, Task, User } from '../types';
 import logger from '../utils/logger';
 
+export const APPROVAL_ACTIONS = {
+  approve: 'approval_approve',
+  reject: 'approval_reject',
+  requestChanges: 'approval_request_changes',
+} as const;
+
+export const REASON_MODAL_CALLBACK_ID = 'approval_reason_modal';
+export const REASON_INPUT_BLOCK_ID = 'reason';
+export const REASON_INPUT_ACTION_ID = 'reason_input';
+
+export interface ApprovalOutcome {
+  decision: 'approved' | 'rejected' | 'changes_requested' | 'expired' | 'cancelled';
+  userId?: string;
+  reason?: string;
+}
+
+export interface ApprovalCard {
+  task: Task;
+  workflow: ApprovalWorkflow;
+  approvers: User[];
+  outcome?: ApprovalOutcome;
+}
+
+export interface ReasonModalMetadata {
+  taskId: string;
+  decision: 'rejected' | 'changes_requested';
+}
+
 export class SlackClient {
   private app: App;
 
@@ -83,6 +112,185 @@ export class SlackClient {
     });
   }
 
+  async postApprovalCard(channel: string, threadTs: string, card: ApprovalCard) {
+    return await this.sendThreadReply(
+      channel,
+      threadTs,
+      this.buildApprovalFallbackText(card),
+      this.buildApprovalBlocks(card)
+    );
+  }
+
+  async updateApprovalCard(channel: string, ts: string, card: ApprovalCard) {
+    return await this.updateMessage(
+      channel,
+      ts,
+      this.buildApprovalFallbackText(card),
+      this.buildApprovalBlocks(card)
+    );
+  }
+
+  async openReasonModal(triggerId: string, metadata: ReasonModalMetadata) {
+    const isRejection = metadata.decision === 'rejected';
+
+    return await this.app.client.views.open({
+      trigger_id: triggerId,
+      view: {
+        type: 'modal',
+        callback_id: REASON_MODAL_CALLBACK_ID,
+        private_metadata: JSON.stringify(metadata),
+        title: { type: 'plain_text', text: isRejection ? 'Reject changes' : 'Request changes' },
+        submit: { type: 'plain_text', text: isRejection ? 'Reject' : 'Send' },
+        close: { type: 'plain_text', text: 'Cancel' },
+        blocks: [
+          {
+            type: 'input',
+            block_id: REASON_INPUT_BLOCK_ID,
+            label: {
+              type: 'plain_text',
+              text: isRejection ? 'Why are these changes rejected?' : 'What should be changed?',
+            },
+            element: {
+              type: 'plain_text_input',
+              action_id: REASON_INPUT_ACTION_ID,
+              multiline: true,
+            },
+          },
+        ],
+      },
+    });
+  }
+
+  private buildApprovalFallbackText(card: ApprovalCard): string {
+    const shortId = card.task.id.substring(0, 8);
+    if (!card.outcome) {
+      return `Approval needed for task ${shortId} (${card.task.websiteTarget})`;
+    }
+    return `Task ${shortId} ${card.outcome.decision.replace('_', ' ')}`;
+  }
+
+  private buildApprovalBlocks(card: ApprovalCard): KnownBlock[] {
+    const { task, workflow, outcome } = card;
+    const shortId = task.id.substring(0, 8);
+    const headers = {
+      pending: `🗳️ *Approval needed* for task \`${shortId}\``,
+      approved: `🎉 *Approved* task \`${shortId}\``,
+      rejected: `🚫 *Rejected* task \`${shortId}\``,
+      changes_requested: `✏️ *Changes requested* on task \`${shortId}\``,
+      expired: `⌛ *Expired* task \`${shortId}\` (no approval in time)`,
+      cancelled: `🛑 *Cancelled* task \`${shortId}\``,
+    };
+
+    const fields = [
+      { type: 'mrkdwn' as const, text: `*Website:*\n${task.websiteTarget}` },
+      { type: 'mrkdwn' as const, text: `*Requested by:*\n<@${task.requesterId}>` },
+      { type: 'mrkdwn' as const, text: `*Branch:*\n\`${task.context?.branchName}\`` },
+    ];
+    if (task.context?.previewUrl) {
+      fields.push({ type: 'mrkdwn', text: `*Preview:*\n${task.context.previewUrl}` });
+    }
+    if (workflow.policyName) {
+      fields.push({ type: 'mrkdwn', text: `*Approval policy:*\n${workflow.policyName}` });
+    }
+
+    const description =
+      task.description.length > 300 ? `${task.description.substring(0, 297)}...` : task.description;
+
+    const blocks: KnownBlock[] = [
+      { type: 'section', text: { type: 'mrkdwn', text: headers[outcome?.decision || 'pending'] } },
+      { type: 'section', fields },
+      { type: 'section', text: { type: 'mrkdwn', text: `> ${description}` } },
+      { type: 'divider' },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: workflow.stages
+            .map((stage, index) => this.formatStageLine(stage, index, card))
+            .join('\n'),
+        },
+      },
+    ];
+
+    if (outcome) {
+      const by = outcome.userId ? ` by <@${outcome.userId}>` : '';
+      const reason = outcome.reason ? `: ${outcome.reason}` : '';
+      blocks.push({
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `${headers[outcome.decision]}${by}${reason}` }],
+      });
+      return blocks;
+    }
+
+    blocks.push({
+      type: 'actions',
+      block_id: `approval_${task.id}`,
+      elements: [
+        {
+          type: 'button',
+          action_id: APPROVAL_ACTIONS.approve,
+          text: { type: 'plain_text', text: 'Approve' },
+          style: 'primary',
+          value: task.id,
+        },
+        {
+          type: 'button',
+          action_id: APPROVAL_ACTIONS.reject,
+          text: { type: 'plain_text', text: 'Reject' },
+          style: 'danger',
+          value: task.id,
+        },
+        {
+          type: 'button',
+          action_id: APPROVAL_ACTIONS.requestChanges,
+          text: { type: 'plain_text', text: 'Request changes' },
+          value: task.id,
+        },
+      ],
+    });
+
+    return blocks;
+  }
+
+  private formatStageLine(stage: ApprovalStage, index: number, card: ApprovalCard): string {
+    const label = `Stage ${index + 1} (${stage.role}${stage.required ? '' : ', optional'})`;
+
+    if (stage.approvedBy && stage.approvedAt) {
+      const epoch = Math.floor(stage.approvedAt.getTime() / 1000);
+      const when = `<!date^${epoch}^{date_short_pretty} at {time}|${stage.approvedAt.toISOString()}>`;
+      return `✅ ${label} — approved by <@${stage.approvedBy}> ${when}`;
+    }
+
+    if (stage.timedOutAt) {
+      const isLast = index === card.workflow.stages.length - 1;
+      return `⌛ ${label} — timed out${isLast ? '' : ', escalated'}`;
+    }
+
+    const isCurrent = index === card.workflow.currentStage && card.workflow.status === 'pending';
+    if (isCurrent) {
+      const approvers = card.approvers.map((u) => `<@${u.userId}>`).join(', ') || '_none configured_';
+      return `⏳ ${label} — waiting on ${approvers}`;
+    }
+
+    return `▫️ ${label}`;
+  }
+
+  async uploadThreadFile(
+    channel: string,
+    threadTs: string,
+    filename: string,
+    content: string,
+    title?: string
+  ) {
+    return await this.app.client.files.uploadV2({
+      channel_id: channel,
+      thread_ts: threadTs,
+      filename,
+      content,
+      title: title || filename,
+    });
+  }
+
   async addReaction(channel: string, timestamp: string, reaction: string) {
     return await this.app.client.reactions.add({
       channel,
@@ -0,0 +1,172 @@
+import { SlackClient } from './slack-client';
+import { AgentEvent, EDIT_TOOLS, READ_TOOLS } from '../ai/claude-client';
+import logger from '../utils/logger';
+
+const RECENT_ACTIVITY_LIMIT = 6;
+// Even without new events, refresh this often so the elapsed time keeps moving
+const IDLE_REFRESH_MS = 15 * 1000;
+
+export class TaskProgress {
+  private slack: SlackClient;
+  private channel: string;
+  private threadTs: string;
+  private taskId: string;
+  private header: string;
+  private intervalMs: number;
+  private messageTs?: string;
+  private startedAt = Date.now();
+  private lastUpdateAt = 0;
+  private currentStep = 'Starting...';
+  private recentActivity: string[] = [];
+  private counts = { read: 0, edited: 0, commands: 0 };
+  private pendingEdits = new Set<string>(); // edit tool uses still waiting for their result
+  private transcript: string[] = [];
+  private timer?: NodeJS.Timeout;
+  private dirty = false;
+  private updateChain: Promise<void> = Promise.resolve();
+
+  constructor(
+    slack: SlackClient,
+    channel: string,
+    threadTs: string,
+    taskId: string,
+    header: string,
+    intervalMs: number = 3000
+  ) {
+    this.slack = slack;
+    this.channel = channel;
+    this.threadTs = threadTs;
+    this.taskId = taskId;
+    this.header = header;
+    this.intervalMs = intervalMs;
+  }
+
+  async start(): Promise<void> {
+    try {
+      const result = await this.slack.sendThreadReply(this.channel, this.threadTs, this.render());
+      this.messageTs = result.ts;
+      this.lastUpdateAt = Date.now();
+      this.timer = setInterval(() => this.refresh(), this.intervalMs);
+    } catch (error) {
+      logger.error('Failed to post progress message', { error, taskId: this.taskId });
+    }
+  }
+
+  step(text: string) {
+    this.currentStep = text;
+    this.transcript.push(`\n## ${text}\n`);
+    this.dirty = true;
+  }
+
+  handleAgentEvent(event: AgentEvent) {
+    if (event.type === 'text') {
+      const lastLine = event.text.trim().split('\n').filter(Boolean).pop();
+      if (lastLine) {
+        this.currentStep = lastLine.length > 150 ? `${lastLine.substring(0, 150)}…` : lastLine;
+      }
+      this.transcript.push(event.text.trim());
+    } else if (event.type === 'tool_result') {
+      // An edit only counts once it went through; denied or failed ones changed nothing
+      if (this.pendingEdits.delete(event.toolUseId) && !event.isError) {
+        this.counts.edited++;
+      }
+    } else {
+      const activity = this.describeToolUse(event.id, event.tool, event.input);
+      this.recentActivity.push(activity);
+      if (this.recentActivity.length > RECENT_ACTIVITY_LIMIT) {
+        this.recentActivity.shift();
+      }
+      this.transcript.push(`> ${activity}`);
+    }
+
+    this.dirty = true;
+  }
+
+  async finish(outcome: string): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    this.currentStep = outcome;
+    this.dirty = true;
+    this.refresh(true);
+    await this.updateChain;
+
+    if (this.transcript.length === 0) return;
+
+    try {
+      await this.slack.uploadThreadFile(
+        this.channel,
+        this.threadTs,
+        `task-${this.taskId.substring(0, 8)}-transcript.md`,
+        `# Task ${this.taskId}\n\n${this.transcript.join('\n\n')}\n`,
+        `Transcript for task ${this.taskId.substring(0, 8)}`
+      );
+    } catch (error) {
+      logger.error('Failed to upload task transcript', { error, taskId: this.taskId });
+    }
+  }
+
+  private refresh(force: boolean = false) {
+    if (!this.messageTs) return;
+
+    const idle = Date.now() - this.lastUpdateAt >= IDLE_REFRESH_MS;
+    if (!force && !this.dirty && !idle) return;
+
+    this.dirty = false;
+    this.lastUpdateAt = Date.now();
+    const text = this.render();
+    const ts = this.messageTs;
+
+    // Chain updates so a slow Slack call never lets an older render overwrite a newer one
+    this.updateChain = this.updateChain.then(async () => {
+      try {
+        await this.slack.updateMessage(this.channel, ts, text);
+      } catch (error) {
+        logger.warn('Failed to update progress message', { error, taskId: this.taskId });
+      }
+    });
+  }
+
+  private render(): string {
+    const { read, edited, commands } = this.counts;
+    const activity = this.recentActivity.map((line) => `• ${line}`).join('\n');
+
+    return [
+      this.header,
+      '',
+      `*Step:* ${this.currentStep}`,
+      `*Activity:* 📖 ${read} read · ✏️ ${edited} edited · 💻 ${commands} command${commands === 1 ? '' : 's'}`,
+      ...(activity ? [activity] : []),
+      `_⏱️ ${this.formatElapsed(Date.now() - this.startedAt)} elapsed_`,
+    ].join('\n');
+  }
+
+  private describeToolUse(id: string, tool: string, input: Record<string, unknown>): string {
+    const target = String(
+      input.file_path ?? input.notebook_path ?? input.path ?? input.pattern ?? ''
+    );
+
+    if (READ_TOOLS.includes(tool)) {
+      this.counts.read++;
+      return `📖 ${tool} \`${target || '.'}\``;
+    }
+    if (EDIT_TOOLS.includes(tool)) {
+      this.pendingEdits.add(id);
+      return `✏️ ${tool} \`${target}\``;
+    }
+    if (tool === 'Bash') {
+      this.counts.commands++;
+      const command = String(input.command ?? '');
+      return `💻 \`${command.length > 80 ? `${command.substring(0, 80)}…` : command}\``;
+    }
+    return `🔧 ${tool}`;
+  }
+
+  private formatElapsed(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(seconds / 60);
+    return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+  }
+}
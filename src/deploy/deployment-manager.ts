@@ -0,0 +1,277 @@
+import { MonorepoManager } from '../monorepo/monorepo-manager';
+import { DeploymentRecord, RollbackPlan } from '../types';
+import logger from '../utils/logger';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+const execAsync = promisify(exec);
+
+const SOURCE_BRANCH = 'main';
+const BUILD_TIMEOUT_MS = 10 * 60 * 1000;
+
+export class DeploymentManager {
+  private monorepo: MonorepoManager;
+  private filePath: string;
+  private deployments: DeploymentRecord[] = [];
+  private loaded = false;
+  private inProgress: Set<string> = new Set(); // deployment branches being written
+
+  constructor(monorepo: MonorepoManager, filePath: string) {
+    this.monorepo = monorepo;
+    this.filePath = filePath;
+  }
+
+  getEnvironments(): Record<string, string> {
+    return this.monorepo.getConfig().deploymentBranches;
+  }
+
+  async deploy(
+    websiteName: string,
+    environment: string,
+    triggeredBy: string,
+    onProgress: (step: string) => Promise<void>
+  ): Promise<DeploymentRecord> {
+    const websiteConfig = await this.monorepo.getWebsiteConfig(websiteName);
+    if (!websiteConfig) {
+      throw new Error(`Website ${websiteName} not found in configuration`);
+    }
+
+    const branch = this.getEnvironments()[environment];
+    if (!branch) {
+      throw new Error(`Unknown environment "${environment}"`);
+    }
+
+    if (this.inProgress.has(branch)) {
+      throw new Error(`A deployment to ${environment} (${branch}) is already in progress`);
+    }
+    // Claim the branch before the first await so a concurrent deploy can't slip past the check
+    this.inProgress.add(branch);
+
+    try {
+      await this.load();
+    } catch (error) {
+      this.inProgress.delete(branch);
+      throw error;
+    }
+
+    const record: DeploymentRecord = {
+      id: uuidv4(),
+      websiteName,
+      environment,
+      branch,
+      triggeredBy,
+      status: 'failed',
+      createdAt: new Date(),
+    };
+
+    let worktreePath: string | undefined;
+
+    try {
+      worktreePath = await this.monorepo.createWorktree(`deploy-${record.id}`, undefined, branch);
+
+      // Only this website's folder is taken from main; other websites' unreleased changes
+      // stay out of the deployment branch until they are deployed themselves
+      if (branch !== SOURCE_BRANCH) {
+        await onProgress(`Taking \`${websiteConfig.path}\` from \`${SOURCE_BRANCH}\`...`);
+        await this.monorepo.restoreSubtree(
+          worktreePath,
+          `origin/${SOURCE_BRANCH}`,
+          websiteConfig.path
+        );
+
+        const changedFiles = await this.monorepo.getChangedFiles(worktreePath);
+        if (changedFiles.length > 0) {
+          await this.monorepo.commitChanges(
+            [websiteConfig.path],
+            `Deploy ${websiteName} to ${environment}`,
+            worktreePath
+          );
+        }
+      }
+
+      await onProgress(`Building ${websiteName}: \`${websiteConfig.buildCommand}\``);
+      await this.runBuild(websiteConfig.buildCommand, path.join(worktreePath, websiteConfig.path));
+
+      if (branch !== SOURCE_BRANCH) {
+        await onProgress(`Pushing \`${branch}\`...`);
+        await this.monorepo.pushHead(branch, worktreePath);
+      }
+
+      record.commitSha = await this.monorepo.getHeadSha(worktreePath);
+      record.status = 'succeeded';
+
+      logger.info('Deployment succeeded', { ...record });
+      return record;
+    } catch (error) {
+      record.error = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Deployment failed', {
+        error,
+        deploymentId: record.id,
+        websiteName,
+        environment,
+      });
+      throw error;
+    } finally {
+      this.inProgress.delete(branch);
+      if (worktreePath) {
+        await this.monorepo.removeWorktree(worktreePath);
+      }
+      this.deployments.push(record);
+      await this.save();
+    }
+  }
+
+  async prepareRollback(
+    websiteName: string,
+    ref: string | undefined,
+    requestedBy: string
+  ): Promise<RollbackPlan> {
+    const websiteConfig = await this.monorepo.getWebsiteConfig(websiteName);
+    if (!websiteConfig) {
+      throw new Error(`Website ${websiteName} not found in configuration`);
+    }
+
+    const target = await this.findRollbackTarget(websiteName, ref);
+    const branch = this.getEnvironments()[target.environment];
+    if (!branch) {
+      throw new Error(`Environment "${target.environment}" is no longer configured`);
+    }
+
+    const id = uuidv4();
+    const rollbackBranch = `fabai/rollback-${id.substring(0, 8)}`;
+    let worktreePath: string | undefined;
+
+    try {
+      worktreePath = await this.monorepo.createWorktree(`rollback-${id}`, rollbackBranch, branch);
+      await this.monorepo.restoreSubtree(worktreePath, target.commitSha!, websiteConfig.path);
+
+      const changedFiles = await this.monorepo.getChangedFiles(worktreePath);
+      if (changedFiles.length === 0) {
+        throw new Error(
+          `${websiteName} on ${target.environment} already matches \`${target.commitSha!.substring(0, 7)}\``
+        );
+      }
+
+      // Stage the website folder as a whole: files added since the target are already staged
+      // as deletions and no longer exist, so naming them individually fails the pathspec
+      await this.monorepo.commitChanges(
+        [websiteConfig.path],
+        `Rollback ${websiteName} on ${target.environment} to ${target.commitSha!.substring(0, 7)}`,
+        worktreePath
+      );
+      await this.monorepo.pushBranch(rollbackBranch, worktreePath);
+    } finally {
+      if (worktreePath) {
+        await this.monorepo.removeWorktree(worktreePath);
+        await this.monorepo.cleanup(rollbackBranch);
+      }
+    }
+
+    logger.info('Rollback prepared', { id, websiteName, target: target.id, rollbackBranch });
+
+    return {
+      id,
+      websiteName,
+      environment: target.environment,
+      branch,
+      rollbackBranch,
+      target,
+      requestedBy,
+    };
+  }
+
+  async recordRollback(
+    plan: RollbackPlan,
+    commitSha: string | undefined
+  ): Promise<DeploymentRecord> {
+    await this.load();
+
+    const record: DeploymentRecord = {
+      id: plan.id,
+      websiteName: plan.websiteName,
+      environment: plan.environment,
+      branch: plan.branch,
+      commitSha,
+      triggeredBy: plan.requestedBy,
+      status: 'succeeded',
+      createdAt: new Date(),
+      rollbackOf: plan.target.id,
+    };
+
+    this.deployments.push(record);
+    await this.save();
+    return record;
+  }
+
+  private async findRollbackTarget(websiteName: string, ref?: string): Promise<DeploymentRecord> {
+    const successful = (await this.getDeployments(websiteName)).filter(
+      (d) => d.status === 'succeeded' && d.commitSha
+    );
+
+    if (ref) {
+      const target = successful.find((d) => d.id.startsWith(ref) || d.commitSha!.startsWith(ref));
+      if (!target) {
+        throw new Error(`No successful ${websiteName} deployment matches \`${ref}\``);
+      }
+      return target;
+    }
+
+    // Default: the production deployment before the current one
+    const production = successful.filter((d) => d.environment === 'production');
+    if (production.length < 2) {
+      throw new Error(`No earlier production deployment of ${websiteName} to roll back to`);
+    }
+    return production[production.length - 2];
+  }
+
+  async getDeployments(websiteName?: string, environment?: string): Promise<DeploymentRecord[]> {
+    await this.load();
+
+    return this.deployments.filter(
+      (d) =>
+        (!websiteName || d.websiteName === websiteName) &&
+        (!environment || d.environment === environment)
+    );
+  }
+
+  private async runBuild(command: string, cwd: string): Promise<void> {
+    if (!command) return;
+
+    try {
+      const { stdout } = await execAsync(command, { cwd, timeout: BUILD_TIMEOUT_MS });
+      logger.info('Build finished', { command, cwd, output: stdout.slice(-500) });
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr;
+      throw new Error(`Build failed: ${stderr?.trim().slice(-500) || (error as Error).message}`);
+    }
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+
+    try {
+      const data = await fs.readFile(this.filePath, 'utf-8');
+      const records: DeploymentRecord[] = JSON.parse(data);
+      this.deployments = records.map((r) => ({ ...r, createdAt: new Date(r.createdAt) }));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('Failed to load deployment history', { error, filePath: this.filePath });
+        throw error;
+      }
+    }
+
+    this.loaded = true;
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(this.deployments, null, 2), 'utf-8');
+    } catch (error) {
+      logger.error('Failed to save deployment history', { error, filePath: this.filePath });
+    }
+  }
+}
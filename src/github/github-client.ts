@@ -43,6 +43,10 @@ export class GitHubClient {
     }
   }
 
+  getPullRequestUrl(prNumber: number): string {
+    return `https://github.com/${this.owner}/${this.repo}/pull/${prNumber}`;
+  }
+
   async generatePRDescription(context: PRContext, taskDescription: string): Promise<string> {
     const sections: string[] = [];
 
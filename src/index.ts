@@ -1,6 +1,6 @@
 import dotenv from 'dotenv';
 import { Orchestrator } from './orchestrator';
-import { MonorepoConfig, User } from './types';
+import { ApprovalPolicy, ApprovalStagePolicy, MonorepoConfig, User, UserRole } from './types';
 import logger from './utils/logger';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -8,6 +8,8 @@ import * as path from 'path';
 // Load environment variables
 dotenv.config();
 
+const POLICY_ROLES: UserRole[] = ['developer', 'admin', 'superadmin'];
+
 async function loadConfig(): Promise<MonorepoConfig> {
   const configPath = process.env.WEBSITES_CONFIG_PATH || './config/websites.json';
 
@@ -55,6 +57,46 @@ async function loadUsers(): Promise<User[]> {
   }
 }
 
+async function loadApprovalPolicy(): Promise<ApprovalPolicy> {
+  const policyPath = process.env.APPROVAL_POLICY_PATH || './config/approval-policies.json';
+
+  try {
+    const policyData = await fs.readFile(policyPath, 'utf-8');
+    const policy = JSON.parse(policyData);
+
+    for (const rule of policy.rules || []) {
+      if (!rule.name || !Array.isArray(rule.stages) || rule.stages.length === 0) {
+        throw new Error(
+          `Approval policy rule "${rule.name || 'unnamed'}" must have a name and stages`
+        );
+      }
+
+      rule.stages.forEach((stage: ApprovalStagePolicy, index: number) => {
+        if (!POLICY_ROLES.includes(stage.role)) {
+          throw new Error(
+            `Approval policy rule "${rule.name}" stage ${index + 1} has unknown role "${stage.role}" (expected ${POLICY_ROLES.join(', ')})`
+          );
+        }
+        if (typeof stage.timeoutMinutes !== 'number' || !(stage.timeoutMinutes > 0)) {
+          throw new Error(
+            `Approval policy rule "${rule.name}" stage ${index + 1} needs a positive numeric timeoutMinutes`
+          );
+        }
+      });
+    }
+
+    return { rules: policy.rules || [] };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      logger.warn('No approval policy found, using role-based defaults', { policyPath });
+      return { rules: [] };
+    }
+
+    logger.error('Failed to load approval policy', { error, policyPath });
+    throw error;
+  }
+}
+
 async function main() {
   try {
     logger.info('Starting FabAI Slack Chatbot...');
@@ -76,14 +118,16 @@ async function main() {
     // Load configuration
     const config = await loadConfig();
     const users = await loadUsers();
+    const approvalPolicy = await loadApprovalPolicy();
 
     logger.info('Configuration loaded', {
       websites: config.websites.length,
       users: users.length,
+      approvalRules: approvalPolicy.rules.length,
     });
 
     // Create and start orchestrator
-    const orchestrator = new Orchestrator(config, users);
+    const orchestrator = new Orchestrator(config, users, approvalPolicy);
     await orchestrator.start();
 
     logger.info('✅ FabAI Slack Chatbot is running!');
@@ -4,23 +4,56 @@ import logger from '../utils/logger';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 
+// Path segments and files inside a website that FabAI must never write to
+const WRITE_PROTECTED_SEGMENTS = ['.git', '.github', '.gitlab', '.circleci', '.husky'];
+const WRITE_PROTECTED_FILES = [
+  '.gitlab-ci.yml',
+  '.travis.yml',
+  'Jenkinsfile',
+  '.gitmodules',
+  '.env',
+];
+
+export type PathViolation = 'invalid' | 'absolute' | 'traversal' | 'symlink_escape' | 'protected';
+
+export class PathSecurityError extends Error {
+  readonly violation: PathViolation;
+  readonly requestedPath: string;
+
+  constructor(violation: PathViolation, requestedPath: string, message: string) {
+    super(message);
+    this.name = 'PathSecurityError';
+    this.violation = violation;
+    this.requestedPath = requestedPath;
+  }
+}
+
 export class MonorepoManager {
   private git: SimpleGit;
   private config: MonorepoConfig;
   private basePath: string;
+  private worktreeRoot: string;
 
   constructor(config: MonorepoConfig) {
     this.config = config;
     this.basePath = config.submodulePath;
+    this.worktreeRoot = path.resolve(process.env.WORKTREE_ROOT || './tmp/worktrees');
     this.git = simpleGit(this.basePath);
   }
 
+  private getGit(worktreePath?: string): SimpleGit {
+    return worktreePath ? simpleGit(worktreePath) : this.git;
+  }
+
   async initialize(): Promise<void> {
     try {
       // Ensure submodule is initialized and updated
       const mainGit = simpleGit(process.cwd());
       await mainGit.submoduleUpdate(['--init', '--recursive']);
 
+      // Drop bookkeeping for worktrees whose directories vanished (e.g. after a crash)
+      await this.git.raw(['worktree', 'prune']);
+
       logger.info('Monorepo initialized', { path: this.basePath });
     } catch (error) {
       logger.error('Failed to initialize monorepo', { error });
@@ -41,6 +74,39 @@ export class MonorepoManager {
     }
   }
 
+  async createWorktree(
+    taskId: string,
+    branchName?: string,
+    baseBranch: string = 'main'
+  ): Promise<string> {
+    const worktreePath = path.join(this.worktreeRoot, taskId);
+
+    try {
+      await fs.mkdir(this.worktreeRoot, { recursive: true });
+      await this.git.fetch('origin', baseBranch);
+
+      // Without a branch name the worktree is detached, for tasks that never commit
+      const branchArgs = branchName ? ['-b', branchName] : ['--detach'];
+      await this.git.raw(['worktree', 'add', ...branchArgs, worktreePath, `origin/${baseBranch}`]);
+
+      logger.info('Worktree created', { taskId, branchName, worktreePath });
+      return worktreePath;
+    } catch (error) {
+      logger.error('Failed to create worktree', { error, taskId, branchName });
+      throw error;
+    }
+  }
+
+  async removeWorktree(worktreePath: string): Promise<void> {
+    try {
+      await this.git.raw(['worktree', 'remove', '--force', worktreePath]);
+      logger.info('Worktree removed', { worktreePath });
+    } catch (error) {
+      logger.error('Failed to remove worktree', { error, worktreePath });
+      // Don't throw - cleanup is best effort
+    }
+  }
+
   async switchBranch(branchName: string): Promise<void> {
     try {
       await this.git.checkout(branchName);
@@ -51,10 +117,11 @@ export class MonorepoManager {
     }
   }
 
-  async commitChanges(files: string[], message: string): Promise<void> {
+  async commitChanges(files: string[], message: string, worktreePath?: string): Promise<void> {
     try {
-      await this.git.add(files);
-      await this.git.commit(message);
+      const git = this.getGit(worktreePath);
+      await git.add(files);
+      await git.commit(message);
 
       logger.info('Changes committed', { files: files.length, message });
     } catch (error) {
@@ -63,9 +130,9 @@ export class MonorepoManager {
     }
   }
 
-  async pushBranch(branchName: string): Promise<void> {
+  async pushBranch(branchName: string, worktreePath?: string): Promise<void> {
     try {
-      await this.git.push('origin', branchName, ['--set-upstream']);
+      await this.getGit(worktreePath).push('origin', branchName, ['--set-upstream']);
       logger.info('Branch pushed', { branchName });
     } catch (error) {
       logger.error('Failed to push branch', { error, branchName });
@@ -73,21 +140,140 @@ export class MonorepoManager {
     }
   }
 
+  async restoreSubtree(worktreePath: string, commitSha: string, subPath: string): Promise<void> {
+    try {
+      const git = this.getGit(worktreePath);
+      await git.fetch('origin');
+      // Remove first so files added since that commit are dropped too
+      await git.raw(['rm', '-r', '--quiet', '--ignore-unmatch', '--', subPath]);
+      await git.raw(['checkout', commitSha, '--', subPath]);
+      logger.info('Subtree restored', { worktreePath, commitSha, subPath });
+    } catch (error) {
+      logger.error('Failed to restore subtree', { error, commitSha, subPath });
+      throw error;
+    }
+  }
+
+  async pushHead(targetBranch: string, worktreePath: string): Promise<void> {
+    try {
+      await this.getGit(worktreePath).push('origin', `HEAD:${targetBranch}`);
+      logger.info('HEAD pushed', { targetBranch, worktreePath });
+    } catch (error) {
+      logger.error('Failed to push HEAD', { error, targetBranch, worktreePath });
+      throw error;
+    }
+  }
+
+  async getHeadSha(worktreePath?: string): Promise<string> {
+    try {
+      const sha = await this.getGit(worktreePath).revparse(['HEAD']);
+      return sha.trim();
+    } catch (error) {
+      logger.error('Failed to get HEAD sha', { error, worktreePath });
+      throw error;
+    }
+  }
+
+  async deleteRemoteBranch(branchName: string): Promise<void> {
+    try {
+      await this.git.push('origin', branchName, ['--delete']);
+      logger.info('Remote branch deleted', { branchName });
+    } catch (error) {
+      logger.error('Failed to delete remote branch', { error, branchName });
+      // Don't throw - cleanup is best effort
+    }
+  }
+
   async getWebsiteConfig(websiteName: string): Promise<WebsiteConfig | undefined> {
     return this.config.websites.find((w) => w.name === websiteName);
   }
 
-  async getWebsitePath(websiteName: string): Promise<string> {
+  async getWebsitePath(websiteName: string, worktreePath?: string): Promise<string> {
     const config = await this.getWebsiteConfig(websiteName);
     if (!config) {
       throw new Error(`Website ${websiteName} not found in configuration`);
     }
-    return path.join(this.basePath, config.path);
+    return path.join(worktreePath || this.basePath, config.path);
+  }
+
+  // Every file API goes through here so a request can never reach outside its website folder
+  async resolveWebsiteFilePath(
+    websiteName: string,
+    filePath: string,
+    access: 'read' | 'write',
+    worktreePath?: string
+  ): Promise<string> {
+    const repoRoot = path.resolve(worktreePath || this.basePath);
+    const websiteRoot = path.resolve(await this.getWebsitePath(websiteName, worktreePath));
+
+    if (filePath.includes('\0')) {
+      throw new PathSecurityError('invalid', filePath, `Invalid file path "${filePath}"`);
+    }
+    if (path.isAbsolute(filePath) || /^[a-zA-Z]:[\\/]/.test(filePath)) {
+      throw new PathSecurityError(
+        'absolute',
+        filePath,
+        `"${filePath}" is an absolute path; use a path relative to the ${websiteName} folder`
+      );
+    }
+
+    const resolved = path.resolve(websiteRoot, filePath);
+    if (!this.isWithin(websiteRoot, resolved) || !this.isWithin(repoRoot, websiteRoot)) {
+      throw new PathSecurityError(
+        'traversal',
+        filePath,
+        `"${filePath}" is outside the ${websiteName} folder`
+      );
+    }
+
+    // Follow symlinks on whatever part of the path already exists
+    const realRoot = await this.realpathOfExisting(websiteRoot);
+    const realTarget = await this.realpathOfExisting(resolved);
+    if (!this.isWithin(realRoot, realTarget)) {
+      throw new PathSecurityError(
+        'symlink_escape',
+        filePath,
+        `"${filePath}" goes through a symlink that leads outside the ${websiteName} folder`
+      );
+    }
+
+    if (access === 'write') {
+      const segments = path.relative(websiteRoot, resolved).split(path.sep);
+      const fileName = segments[segments.length - 1];
+
+      if (resolved === websiteRoot) {
+        throw new PathSecurityError('invalid', filePath, `"${filePath}" is not a file path`);
+      }
+      if (
+        segments.some((segment) => WRITE_PROTECTED_SEGMENTS.includes(segment)) ||
+        WRITE_PROTECTED_FILES.includes(fileName) ||
+        fileName.startsWith('.env.')
+      ) {
+        throw new PathSecurityError('protected', filePath, `"${filePath}" is a protected path`);
+      }
+    }
+
+    return resolved;
+  }
+
+  private isWithin(parent: string, child: string): boolean {
+    return child === parent || child.startsWith(parent + path.sep);
+  }
+
+  private async realpathOfExisting(target: string): Promise<string> {
+    try {
+      return await fs.realpath(target);
+    } catch (error) {
+      const parent = path.dirname(target);
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || parent === target) {
+        throw error;
+      }
+      return path.join(await this.realpathOfExisting(parent), path.basename(target));
+    }
   }
 
-  async readFile(websiteName: string, filePath: string): Promise<string> {
-    const websitePath = await this.getWebsitePath(websiteName);
-    const fullPath = path.join(websitePath, filePath);
+  async readFile(websiteName: string, filePath: string, worktreePath?: string): Promise<string> {
+    const fullPath = await this.resolveWebsiteFilePath(websiteName, filePath, 'read', worktreePath);
 
     try {
       const content = await fs.readFile(fullPath, 'utf-8');
@@ -98,16 +284,40 @@ export class MonorepoManager {
     }
   }
 
-  async writeFile(websiteName: string, filePath: string, content: string): Promise<void> {
-    const websitePath = await this.getWebsitePath(websiteName);
-    const fullPath = path.join(websitePath, filePath);
+  async readBinaryFile(
+    websiteName: string,
+    filePath: string,
+    worktreePath?: string
+  ): Promise<Buffer> {
+    const fullPath = await this.resolveWebsiteFilePath(websiteName, filePath, 'read', worktreePath);
+
+    try {
+      return await fs.readFile(fullPath);
+    } catch (error) {
+      logger.error('Failed to read file', { error, filePath: fullPath });
+      throw error;
+    }
+  }
+
+  async writeFile(
+    websiteName: string,
+    filePath: string,
+    content: string | Buffer,
+    worktreePath?: string
+  ): Promise<void> {
+    const fullPath = await this.resolveWebsiteFilePath(
+      websiteName,
+      filePath,
+      'write',
+      worktreePath
+    );
 
     try {
       // Ensure directory exists
       const dir = path.dirname(fullPath);
       await fs.mkdir(dir, { recursive: true });
 
-      await fs.writeFile(fullPath, content, 'utf-8');
+      await fs.writeFile(fullPath, content, typeof content === 'string' ? 'utf-8' : undefined);
       logger.info('File written', { filePath: fullPath });
     } catch (error) {
       logger.error('Failed to write file', { error, filePath: fullPath });
@@ -116,8 +326,7 @@ export class MonorepoManager {
   }
 
   async deleteFile(websiteName: string, filePath: string): Promise<void> {
-    const websitePath = await this.getWebsitePath(websiteName);
-    const fullPath = path.join(websitePath, filePath);
+    const fullPath = await this.resolveWebsiteFilePath(websiteName, filePath, 'write');
 
     try {
       await fs.unlink(fullPath);
@@ -128,9 +337,17 @@ export class MonorepoManager {
     }
   }
 
-  async listFiles(websiteName: string, directory: string = ''): Promise<string[]> {
-    const websitePath = await this.getWebsitePath(websiteName);
-    const fullPath = path.join(websitePath, directory);
+  async listFiles(
+    websiteName: string,
+    directory: string = '',
+    worktreePath?: string
+  ): Promise<string[]> {
+    const fullPath = await this.resolveWebsiteFilePath(
+      websiteName,
+      directory,
+      'read',
+      worktreePath
+    );
 
     try {
       const files = await fs.readdir(fullPath, { recursive: true });
@@ -141,13 +358,14 @@ export class MonorepoManager {
     }
   }
 
-  async getDiff(fromBranch?: string): Promise<string> {
+  async getDiff(fromBranch?: string, worktreePath?: string): Promise<string> {
     try {
+      const git = this.getGit(worktreePath);
       if (fromBranch) {
-        const diff = await this.git.diff([fromBranch]);
+        const diff = await git.diff([fromBranch]);
         return diff;
       } else {
-        const diff = await this.git.diff();
+        const diff = await git.diff();
         return diff;
       }
     } catch (error) {
@@ -156,21 +374,65 @@ export class MonorepoManager {
     }
   }
 
-  async getChangedFiles(): Promise<string[]> {
+  async getChangedFiles(worktreePath?: string): Promise<string[]> {
     try {
-      const status = await this.git.status();
-      return [
+      const status = await this.getGit(worktreePath).status();
+      const files = [
         ...status.modified,
         ...status.created,
+        ...status.not_added, // untracked files, e.g. new pages
         ...status.deleted,
         ...status.renamed.map((r) => r.to),
       ];
+      return [...new Set(files)];
     } catch (error) {
       logger.error('Failed to get changed files', { error });
       throw error;
     }
   }
 
+  async revertFiles(files: string[], worktreePath?: string): Promise<void> {
+    if (files.length === 0) return;
+
+    try {
+      const git = this.getGit(worktreePath);
+      const root = worktreePath || this.basePath;
+
+      // Files that exist at HEAD are checked out again; anything new is removed
+      const inHead = new Set(
+        (await git.raw(['ls-tree', '-r', '--name-only', 'HEAD', '--', ...files]))
+          .split('\n')
+          .filter(Boolean)
+      );
+      const tracked = files.filter((file) => inHead.has(file));
+      const added = files.filter((file) => !inHead.has(file));
+
+      if (tracked.length > 0) {
+        await git.raw(['checkout', 'HEAD', '--', ...tracked]);
+      }
+      if (added.length > 0) {
+        await git.raw([
+          'rm',
+          '-r',
+          '-f',
+          '--cached',
+          '--quiet',
+          '--ignore-unmatch',
+          '--',
+          ...added,
+        ]);
+        for (const file of added) {
+          await fs.rm(path.join(root, file), { recursive: true, force: true });
+        }
+      }
+
+      logger.info('Files reverted', { worktreePath, files });
+    } catch (error) {
+      logger.error('Failed to revert files', { error, files });
+      throw error;
+    }
+  }
+
   async getCurrentBranch(): Promise<string> {
     try {
       const status = await this.git.status();
@@ -1,14 +1,107 @@
-import { SlackClient } from './bot/slack-client';
-import { ClaudeClient } from './ai/claude-client';
-import { TaskQueue } from './queue/task-queue';
-import { MonorepoManager } from './monorepo/monorepo-manager';
+import {
+  SlackClient,
+  ApprovalCard,
+  ApprovalOutcome,
+  ReasonModalMetadata,
+  APPROVAL_ACTIONS,
+  REASON_MODAL_CALLBACK_ID,
+  REASON_INPUT_BLOCK_ID,
+  REASON_INPUT_ACTION_ID,
+} from './bot/slack-client';
+import { TaskProgress } from './bot/task-progress';
+import { ClaudeClient, ImageInput } from './ai/claude-client';
+import { TaskEstimate, TaskQueue } from './queue/task-queue';
+import { JsonFileTaskStore } from './queue/task-store';
+import { TaskRegistry } from './queue/task-registry';
+import { DurationStats } from './queue/duration-stats';
+import { formatLock, locksOverlap } from './queue/resource-locks';
+import { MonorepoManager, PathSecurityError } from './monorepo/monorepo-manager';
 import { ApprovalEngine } from './workflow/approval-engine';
 import { GitHubClient } from './github/github-client';
 import { PreviewManager } from './preview/preview-manager';
 import { FileProcessor } from './utils/file-processor';
-import { Task, TaskType, TaskPriority, User, MonorepoConfig, PRContext, FileChange } from './types';
+import { DeploymentManager } from './deploy/deployment-manager';
+import { TaskHandler, TaskHandlerContext, TaskHandlerRegistry } from './tasks/task-handler-registry';
+import { bumpPriority, detectPriority } from './tasks/task-priority';
+import {
+  Task,
+  TaskType,
+  TaskPriority,
+  TaskStatus,
+  LockMode,
+  ResourceLock,
+  User,
+  MonorepoConfig,
+  PRContext,
+  FileChange,
+  ApprovalWorkflow,
+  ApprovalStage,
+  ApprovalPolicy,
+  RollbackPlan,
+  TaskAttachment,
+  WebsiteConfig,
+  ReviewFinding,
+  FindingSeverity,
+} from './types';
 import logger from './utils/logger';
 import { v4 as uuidv4 } from 'uuid';
+import { BlockAction, ButtonAction } from '@slack/bolt';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+// Existing images smaller than this aren't worth re-encoding
+const ASSET_MIN_BYTES = 100 * 1024;
+const ASSET_MAX_FILES = 20;
+const MAX_INLINE_TEXT_CHARS = 20000;
+
+// Only explicit optimization requests become asset tasks; asking to put an image on a page
+// is a website update, since the asset pipeline never touches markup
+const ASSET_REQUEST_PATTERN =
+  /\b(?:optimi[sz]e|compress|shrink|resize)\b.*\b(?:images?|photos?|pictures?|assets?|logos?|icons?)\b|\b(?:image|asset)\s+(?:optimi[sz]ation|compression)\b/i;
+const IMAGE_PLACEMENT_PATTERN =
+  /\b(?:put|place|add|insert|use|swap|replace)\b.*\b(?:on|in|into|as)\b/i;
+
+const TASK_STATUS_ICONS: Record<TaskStatus, string> = {
+  queued: '⏳',
+  processing: '🔄',
+  waiting_approval: '🗳️',
+  completed: '✅',
+  failed: '❌',
+  rejected: '🚫',
+  expired: '⌛',
+  interrupted: '⚠️',
+  cancelled: '🛑',
+};
+
+// "after 1a2b3c4d: ..." or "once task 1a2b3c4d and 5e6f7a8b are done, ..." makes the new task wait on those.
+// Without the word "task" an id needs a letter, so dates like "after 2025-01-01" stay part of the request.
+const AFTER_CLAUSE_PATTERN =
+  /\b(?:after|once)\s+((?:(?:task\s+`?[0-9a-f][0-9a-f-]{7,35}|`?(?=[0-9-]*[a-f])[0-9a-f][0-9a-f-]{7,35})`?(?:\s*,\s*|\s+and\s+)?)+)(?:\s+(?:is|are)\s+done)?\s*[:,]?\s*/i;
+const TASK_REF_PATTERN = /[0-9a-f][0-9a-f-]{7,35}/gi;
+
+// Queue commands must be the whole message, so requests like "pause the hero video" or
+// "cancel the newsletter popup" still reach the AI
+const PAUSE_COMMAND_PATTERN = /^(pause|resume)[.!]?$/i;
+const CANCEL_COMMAND_PATTERN = /^cancel(?:\s+(?:task\s+)?`?([0-9a-f][0-9a-f-]{7,35})`?)?[.!]?$/i;
+
+const PRIORITY_ICONS: Record<TaskPriority, string> = {
+  urgent: '🚨',
+  high: '🔺',
+  medium: '▫️',
+  low: '🔽',
+};
+
+// Keeps the planning prompt small on sites with many files
+const PLAN_FILE_LIST_LIMIT = 300;
+// A change touching more files than this is treated as website-wide
+const PLAN_MAX_WRITE_FILES = 15;
+
+const SEVERITY_ICONS: Record<FindingSeverity, string> = {
+  critical: '🔴',
+  major: '🟠',
+  minor: '🟡',
+  info: '🔵',
+};
 
 export class Orchestrator {
   private slack: SlackClient;
@@ -19,23 +112,96 @@ export class Orchestrator {
   private github: GitHubClient;
   private previewManager: PreviewManager;
   private fileProcessor: FileProcessor;
+  private deployments: DeploymentManager;
+  private taskHandlers: TaskHandlerRegistry;
   private users: Map<string, User>;
 
-  constructor(config: MonorepoConfig, users: User[]) {
+  constructor(config: MonorepoConfig, users: User[], approvalPolicy?: ApprovalPolicy) {
     this.slack = new SlackClient();
     this.claude = new ClaudeClient();
-    this.taskQueue = new TaskQueue(parseInt(process.env.MAX_CONCURRENT_TASKS || '3'));
+    const retentionDays = parseInt(process.env.TASK_HISTORY_RETENTION_DAYS || '7');
+    this.taskQueue = new TaskQueue(
+      parseInt(process.env.MAX_CONCURRENT_TASKS || '3'),
+      new JsonFileTaskStore(process.env.TASK_STORE_PATH || './data/tasks.json', retentionDays),
+      new TaskRegistry(retentionDays),
+      {
+        agingIntervalMs: parseInt(process.env.PRIORITY_AGING_MINUTES || '10') * 60 * 1000,
+        maxPerRequester: parseInt(process.env.MAX_TASKS_PER_REQUESTER || '2'),
+        urgentExtraSlots: parseInt(process.env.URGENT_EXTRA_SLOTS || '1'),
+      },
+      new DurationStats(process.env.TASK_DURATION_STORE_PATH || './data/task-durations.json')
+    );
     this.monorepo = new MonorepoManager(config);
-    this.approvalEngine = new ApprovalEngine(users);
+    this.approvalEngine = new ApprovalEngine(users, approvalPolicy);
     this.github = new GitHubClient();
     this.previewManager = new PreviewManager();
     this.fileProcessor = new FileProcessor();
+    this.deployments = new DeploymentManager(
+      this.monorepo,
+      process.env.DEPLOYMENT_STORE_PATH || './data/deployments.json'
+    );
+    this.taskHandlers = new TaskHandlerRegistry();
     this.users = new Map(users.map((u) => [u.userId, u]));
 
+    this.registerTaskHandlers();
     this.setupEventHandlers();
   }
 
+  registerTaskHandler(handler: TaskHandler) {
+    this.taskHandlers.register(handler);
+  }
+
+  private registerTaskHandlers() {
+    this.registerTaskHandler({
+      type: 'website_update',
+      description: 'Edit website files on a branch and send them for approval',
+      producesChanges: true,
+      run: (context) => this.processWebsiteUpdate(context),
+    });
+    this.registerTaskHandler({
+      type: 'asset_process',
+      description: 'Optimize images into responsive variants',
+      producesChanges: true,
+      run: (context) => this.processAsset(context),
+    });
+    this.registerTaskHandler({
+      type: 'file_analysis',
+      description: 'Read-only analysis of uploaded files and website content',
+      producesChanges: false,
+      run: (context) => this.processFileAnalysis(context),
+    });
+    this.registerTaskHandler({
+      type: 'code_review',
+      description: 'Read-only review producing a findings report',
+      producesChanges: false,
+      run: (context) => this.processCodeReview(context),
+    });
+  }
+
   private activeThreads: Set<string> = new Set(); // Track threads where bot is active
+  private pendingApprovals: Map<string, Task> = new Map(); // taskId -> task awaiting approval
+  private approvalMessages: Map<string, string> = new Map(); // approval card ts -> taskId
+  private approvalTimer?: NodeJS.Timeout;
+  private schedulerTimer?: NodeJS.Timeout;
+  private priorityBumpReaction = process.env.PRIORITY_BUMP_REACTION || 'arrow_up';
+  // Top-level website directories shared across pages; any edit inside locks the whole directory
+  private sharedAssetDirs: string[] = (process.env.SHARED_ASSET_DIRS || 'css,js').split(',');
+  private runningTasks: Map<string, AbortController> = new Map(); // taskId -> aborts the agent on cancel
+  private pendingAttachments: Map<string, TaskAttachment[]> = new Map(); // threadTs -> uploads for the next task
+  private allowedUploadTypes: string[] = (
+    process.env.UPLOAD_ALLOWED_TYPES ||
+    'image/png,image/jpeg,image/gif,image/webp,image/svg+xml,font/woff,font/woff2,' +
+      'text/plain,text/markdown,text/csv,text/html,text/css,' +
+      'application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  ).split(',');
+  private pendingRollbacks: Map<
+    string,
+    { plan: RollbackPlan; prNumber: number; channel: string; threadTs: string }
+  > = new Map(); // rollback workflow id -> rollback awaiting emergency approval
+  // What to do when a task changes files outside its website: keep the rest, or fail the task
+  private guardrailMode: 'quarantine' | 'fail' =
+    process.env.GUARDRAIL_MODE === 'fail' ? 'fail' : 'quarantine';
+  private quarantineRoot: string = path.resolve(process.env.QUARANTINE_PATH || './data/quarantine');
 
   private setupEventHandlers() {
     const app = this.slack.getApp();
@@ -84,7 +250,35 @@ export class Orchestrator {
         await this.handleApproval(event.user, event.item.ts);
       } else if (event.reaction === 'x' || event.reaction === 'no_entry') {
         await this.handleRejection(event.user, event.item.ts);
+      } else if (event.reaction === this.priorityBumpReaction) {
+        await this.handlePriorityBump(event.user, event.item.ts);
+      }
+    });
+
+    // Handle approval card buttons
+    app.action<BlockAction<ButtonAction>>(
+      new RegExp(`^(${Object.values(APPROVAL_ACTIONS).join('|')})$`),
+      async ({ ack, body, action }) => {
+        await ack();
+        if (!action.value) return;
+        await this.handleApprovalButton(body.user.id, action.value, action.action_id, body.trigger_id);
+      }
+    );
+
+    // Handle the reason modal for rejections and change requests
+    app.view(REASON_MODAL_CALLBACK_ID, async ({ ack, body, view }) => {
+      const reason = view.state.values[REASON_INPUT_BLOCK_ID]?.[REASON_INPUT_ACTION_ID]?.value;
+      if (!reason?.trim()) {
+        await ack({
+          response_action: 'errors',
+          errors: { [REASON_INPUT_BLOCK_ID]: 'Please give a reason' },
+        });
+        return;
       }
+
+      await ack();
+      const metadata: ReasonModalMetadata = JSON.parse(view.private_metadata);
+      await this.handleReasonSubmitted(body.user.id, metadata, reason.trim());
     });
 
     // Task queue events
@@ -100,7 +294,27 @@ export class Orchestrator {
       await this.handleTaskFailure(task, error);
     });
 
+    this.taskQueue.on('task_interrupted', async (task: Task) => {
+      await this.handleTaskInterrupted(task);
+    });
+
+    this.taskQueue.on('task_approval_lost', async (task: Task) => {
+      await this.handleApprovalLost(task);
+    });
+
+    this.taskQueue.on('task_cancelled', async (task: Task, wasRunning: boolean) => {
+      await this.handleTaskCancelled(task, wasRunning);
+    });
+
+    this.taskQueue.on('task_dependency_failed', async (task: Task, prerequisite: Task) => {
+      await this.handleDependencyFailed(task, prerequisite);
+    });
+
     // Approval workflow events
+    this.approvalEngine.on('stage_changed', async (workflow: ApprovalWorkflow) => {
+      await this.handleStageChanged(workflow);
+    });
+
     this.approvalEngine.on('workflow_approved', async (workflow) => {
       await this.handleWorkflowApproved(workflow);
     });
@@ -108,11 +322,45 @@ export class Orchestrator {
     this.approvalEngine.on('workflow_rejected', async (workflow, user, reason) => {
       await this.handleWorkflowRejected(workflow, user, reason);
     });
+
+    this.approvalEngine.on('changes_requested', async (workflow, user, feedback) => {
+      await this.handleChangesRequested(workflow, user, feedback);
+    });
+
+    this.approvalEngine.on('emergency_approval', async (workflow: ApprovalWorkflow, user: User) => {
+      await this.handleEmergencyApproval(workflow, user);
+    });
+
+    this.approvalEngine.on('stage_reminder', async (workflow: ApprovalWorkflow) => {
+      await this.handleStageReminder(workflow);
+    });
+
+    this.approvalEngine.on(
+      'stage_escalated',
+      async (workflow: ApprovalWorkflow, from: ApprovalStage, to: ApprovalStage) => {
+        await this.handleStageEscalated(workflow, from, to);
+      }
+    );
+
+    this.approvalEngine.on('workflow_expired', async (workflow: ApprovalWorkflow) => {
+      await this.handleWorkflowExpired(workflow);
+    });
   }
 
   async start() {
     await this.monorepo.initialize();
     await this.slack.start();
+    await this.taskQueue.restore();
+
+    const approvalCheckInterval = parseInt(process.env.APPROVAL_CHECK_INTERVAL_SECONDS || '60');
+    this.approvalTimer = setInterval(
+      () => this.approvalEngine.checkTimeouts(),
+      approvalCheckInterval * 1000
+    );
+
+    const schedulerTickInterval = parseInt(process.env.SCHEDULER_TICK_SECONDS || '30');
+    this.schedulerTimer = setInterval(() => this.taskQueue.tick(), schedulerTickInterval * 1000);
+
     logger.info('Orchestrator started successfully');
   }
 
@@ -139,16 +387,57 @@ export class Orchestrator {
       }
 
       if (cleanText.toLowerCase().startsWith('deploy')) {
-        if (!user) {
-          await this.slack.sendThreadReply(channel, actualThreadTs, '⛔ You are not authorized to deploy. Please contact an administrator.');
+        if (!user || user.role === 'developer') {
+          await this.slack.sendThreadReply(channel, actualThreadTs, '⛔ Only admins can deploy. Please contact an administrator.');
+          return;
+        }
+        const [, websiteName, environment] = cleanText.split(/\s+/);
+        await this.handleDeployCommand(userId, websiteName, environment, channel, actualThreadTs);
+        return;
+      }
+
+      if (cleanText.toLowerCase().startsWith('rollback')) {
+        if (!user || user.role === 'developer') {
+          await this.slack.sendThreadReply(channel, actualThreadTs, '⛔ Only admins can roll back deployments. Please contact an administrator.');
+          return;
+        }
+        const [, websiteOrAction, keyword, ref] = cleanText.split(/\s+/);
+        if (websiteOrAction?.toLowerCase() === 'confirm') {
+          await this.handleRollbackConfirm(userId, keyword, channel, actualThreadTs);
+        } else {
+          await this.handleRollbackCommand(
+            userId,
+            websiteOrAction,
+            keyword?.toLowerCase() === 'to' ? ref : undefined,
+            channel,
+            actualThreadTs
+          );
+        }
+        return;
+      }
+
+      const pauseCommand = cleanText.match(PAUSE_COMMAND_PATTERN);
+      if (pauseCommand) {
+        if (!user || user.role === 'developer') {
+          await this.slack.sendThreadReply(channel, actualThreadTs, '⛔ Only admins can pause or resume the queue. Please contact an administrator.');
           return;
         }
-        // Add deployment logic here
-        await this.slack.sendThreadReply(channel, actualThreadTs, '🚀 Deployment command received. Feature coming soon!');
+        await this.handlePauseCommand(
+          userId,
+          pauseCommand[1].toLowerCase() === 'pause',
+          channel,
+          actualThreadTs
+        );
         return;
       }
 
       // Non-privileged commands (available to all users)
+      const cancelCommand = cleanText.match(CANCEL_COMMAND_PATTERN);
+      if (cancelCommand) {
+        await this.handleCancelCommand(userId, cancelCommand[1], channel, actualThreadTs);
+        return;
+      }
+
       if (cleanText.toLowerCase().startsWith('status')) {
         await this.handleStatusCommand(channel, actualThreadTs);
         return;
@@ -165,7 +454,21 @@ export class Orchestrator {
     }
   }
 
-  private async handleAIRequest(userId: string, text: string, channel: string, threadTs: string) {
+  private async handleAIRequest(
+    userId: string,
+    message: string,
+    channel: string,
+    threadTs: string
+  ) {
+    // Pull out "after <taskId>" and any --urgent style flag so the rest reads as a normal request
+    const afterClause = message.match(AFTER_CLAUSE_PATTERN);
+    const prerequisiteRefs = afterClause?.[1].match(TASK_REF_PATTERN) || [];
+    const priority = detectPriority(
+      afterClause ? message.replace(afterClause[0], '').trim() : message,
+      this.users.get(userId)?.role || 'developer'
+    );
+    const text = priority.text;
+
     // Check for restricted requests
     const lowerText = text.toLowerCase();
 
@@ -296,19 +599,23 @@ When asked your name, always say "FabAI".`,
       taskType = 'code_review';
     } else if (lowerText.includes('analyze') || lowerText.includes('analysis')) {
       taskType = 'file_analysis';
-    } else if (lowerText.includes('image') || lowerText.includes('asset') || lowerText.includes('optimize')) {
+    } else if (ASSET_REQUEST_PATTERN.test(text) && !IMAGE_PLACEMENT_PATTERN.test(text)) {
       taskType = 'asset_process';
     }
 
+    const dependencies = await this.resolvePrerequisites(prerequisiteRefs, channel, threadTs);
+    if (!dependencies) return;
+
     // Create task
     const task: Task = {
       id: uuidv4(),
       type: taskType,
-      priority: 'medium',
+      priority: priority.priority,
+      expedite: priority.expedite,
       requesterId: userId,
       websiteTarget: websiteTarget,
-      dependencies: [],
-      resources: [websiteTarget],
+      dependencies,
+      resources: await this.planResourceLocks(userId, taskType, websiteTarget, text),
       status: 'queued',
       estimatedTime: 15 * 60 * 1000, // 15 minutes
       createdAt: new Date(),
@@ -316,21 +623,258 @@ When asked your name, always say "FabAI".`,
       context: {
         originalMessage: text,
         channel: channel,
-        threadTs: threadTs
+        threadTs: threadTs,
+        attachments: this.pendingAttachments.get(threadTs) || [],
       },
     };
+    this.pendingAttachments.delete(threadTs);
 
     // Add to queue
     this.taskQueue.addTask(task);
 
-    await this.slack.sendThreadReply(
+    const estimate = this.taskQueue.getEstimate(task.id);
+    const eta = estimate ? `\n⏱️ ${this.formatEstimate(estimate)}` : '';
+    const priorityNote =
+      priority.priority !== 'medium'
+        ? `\n${PRIORITY_ICONS[priority.priority]} Priority: *${priority.priority}* (${priority.reason})${priority.expedite ? ', may start even if every slot is busy' : ''}`
+        : '';
+    const bumpHint =
+      task.status === 'queued'
+        ? `\n_React with :${this.priorityBumpReaction}: to bump its priority._`
+        : '';
+
+    const reply = await this.slack.sendThreadReply(
       channel,
       threadTs,
-      `✅ Task queued! I'll start working on it shortly...`
+      (dependencies.length > 0
+        ? `✅ Task \`${task.id.substring(0, 8)}\` queued! I'll start once ${dependencies.map((id) => `\`${id.substring(0, 8)}\``).join(', ')} ${dependencies.length === 1 ? 'has' : 'have'} completed.`
+        : `✅ Task queued! I'll start working on it shortly...`) +
+        priorityNote +
+        eta +
+        bumpHint
+    );
+
+    // Reactions on this reply bump the task's priority
+    task.context.queuedMessageTs = reply.ts;
+    this.taskQueue.persist(task);
+  }
+
+  private async handlePriorityBump(userId: string, messageTs: string) {
+    const task = this.taskQueue
+      .getActiveTasks()
+      .find(
+        (t) =>
+          t.status === 'queued' &&
+          (t.context?.queuedMessageTs === messageTs || t.context?.threadTs === messageTs)
+      );
+    if (!task) return; // Not a queued task's message
+
+    const role = this.users.get(userId)?.role || 'developer';
+    if (userId !== task.requesterId && role === 'developer') {
+      logger.info('Priority bump ignored: not the requester or an admin', {
+        taskId: task.id,
+        userId,
+      });
+      return;
+    }
+
+    const next = bumpPriority(task.priority, role);
+    if (!next) {
+      logger.info('Priority bump ignored', { taskId: task.id, userId, priority: task.priority });
+      return;
+    }
+
+    const expedite = next === 'urgent' && role !== 'developer';
+    this.taskQueue.reprioritize(task.id, next, expedite);
+
+    await this.slack.sendThreadReply(
+      task.context.channel,
+      task.context.threadTs,
+      `${PRIORITY_ICONS[next]} <@${userId}> bumped task \`${task.id.substring(0, 8)}\` to *${next}* priority${expedite ? '; it may start even if every slot is busy' : ''}.`
+    );
+  }
+
+  private formatEstimate(estimate: TaskEstimate): string {
+    const start =
+      estimate.startsInMs < 60 * 1000
+        ? 'Starting now'
+        : `Starts in ~${this.formatDuration(estimate.startsInMs)}`;
+    const basis =
+      estimate.samples > 0
+        ? `based on ${estimate.samples} similar task${estimate.samples === 1 ? '' : 's'}`
+        : 'rough guess, no history yet';
+
+    return `${start}, done in ~${this.formatDuration(estimate.finishesInMs)} (likely within ${this.formatDuration(estimate.finishesInUpperMs)}; ${basis})${this.taskQueue.isPaused() ? ' once the queue is resumed' : ''}`;
+  }
+
+  // Website updates declare the files they'll touch up front so edits to different pages
+  // can run side by side; anything unclear falls back to locking the whole website
+  private async planResourceLocks(
+    userId: string,
+    taskType: TaskType,
+    websiteTarget: string,
+    request: string
+  ): Promise<ResourceLock[]> {
+    const wholeWebsite: ResourceLock[] = [{ path: websiteTarget, mode: 'write' }];
+
+    if (taskType === 'code_review' || taskType === 'file_analysis') {
+      return [{ path: websiteTarget, mode: 'read' }];
+    }
+    if (taskType !== 'website_update') {
+      return wholeWebsite;
+    }
+
+    try {
+      const files = (await this.monorepo.listFiles(websiteTarget))
+        .map((file) => file.split(path.sep).join('/'))
+        .filter(
+          (file) => !file.split('/').some((part) => part.startsWith('.') || part === 'node_modules')
+        )
+        .slice(0, PLAN_FILE_LIST_LIMIT);
+
+      const response = await this.claude.sendMessage(
+        userId,
+        `A website change is about to be made. Decide which files it will touch.
+
+Request: "${request}"
+
+Files in the website:
+${files.join('\n')}
+
+Respond with ONLY a JSON object, no prose:
+{"write": ["paths the change will create, modify or delete"], "read": ["other paths it must read, e.g. shared styles"]}
+
+Use paths relative to the website root exactly as listed (new files may be added).
+If the change is broad or you can't tell which files it needs, respond {"write": ["*"], "read": []}.`,
+        undefined,
+        false
+      );
+
+      const plan = JSON.parse(response.match(/\{[\s\S]*\}/)?.[0] || '') as {
+        write?: unknown;
+        read?: unknown;
+      };
+      const write = Array.isArray(plan.write) ? plan.write.map(String) : [];
+      const read = Array.isArray(plan.read) ? plan.read.map(String) : [];
+
+      if (write.length === 0 || write.length > PLAN_MAX_WRITE_FILES || write.includes('*')) {
+        return wholeWebsite;
+      }
+
+      const locks = [
+        ...write.map((file) => this.toResourceLock(websiteTarget, file, 'write')),
+        ...read.map((file) => this.toResourceLock(websiteTarget, file, 'read')),
+      ];
+      if (locks.some((lock) => !lock)) {
+        logger.warn('Planned files fell outside the website', { websiteTarget, write, read });
+        return wholeWebsite;
+      }
+
+      return this.mergeLocks(locks as ResourceLock[]);
+    } catch (error) {
+      logger.warn('Could not plan task files, locking the whole website', { error, websiteTarget });
+      return wholeWebsite;
+    }
+  }
+
+  private toResourceLock(
+    websiteTarget: string,
+    file: string,
+    mode: LockMode
+  ): ResourceLock | undefined {
+    const normalized = path.posix.normalize(file.replace(/\\/g, '/')).replace(/^(\.\/)+/, '');
+    if (
+      !normalized ||
+      normalized === '.' ||
+      path.posix.isAbsolute(normalized) ||
+      normalized === '..' ||
+      normalized.startsWith('../')
+    ) {
+      return undefined;
+    }
+
+    // Shared assets are where concurrent edits actually collide, so they lock as a whole directory
+    const [topLevel] = normalized.split('/');
+    const lockPath =
+      this.sharedAssetDirs.includes(topLevel) && normalized !== topLevel
+        ? topLevel
+        : normalized.replace(/\/$/, '');
+
+    return { path: `${websiteTarget}/${lockPath}`, mode };
+  }
+
+  // Paths relative to the website that the task locked for writing; undefined when it locked the whole site
+  private getWritablePaths(task: Task): string[] | undefined {
+    const writes = task.resources.filter((lock) => lock.mode === 'write');
+    if (writes.length === 0 || writes.some((lock) => !lock.path.includes('/'))) {
+      return undefined;
+    }
+    return writes.map((lock) => lock.path.substring(lock.path.indexOf('/') + 1));
+  }
+
+  // Drops locks already covered by a broader or stronger one, e.g. a read of a file being written
+  private mergeLocks(locks: ResourceLock[]): ResourceLock[] {
+    const ordered = [...locks].sort((a, b) =>
+      a.mode === b.mode ? a.path.length - b.path.length : a.mode === 'write' ? -1 : 1
     );
+    const merged: ResourceLock[] = [];
+
+    for (const lock of ordered) {
+      const covered = merged.some(
+        (held) =>
+          locksOverlap(held, lock) &&
+          held.path.length <= lock.path.length &&
+          (held.mode === 'write' || lock.mode === 'read')
+      );
+      if (!covered) merged.push(lock);
+    }
+
+    return merged;
+  }
+
+  private async resolvePrerequisites(
+    refs: string[],
+    channel: string,
+    threadTs: string
+  ): Promise<string[] | undefined> {
+    const dependencies: string[] = [];
+
+    for (const ref of refs) {
+      const prerequisite = this.taskQueue.findKnownTask(ref.toLowerCase());
+
+      if (!prerequisite) {
+        await this.slack.sendThreadReply(
+          channel,
+          threadTs,
+          `⛔ No task matches \`${ref}\`, so I can't queue this after it. Check \`status\` for task ids.`
+        );
+        return undefined;
+      }
+
+      if (
+        !['queued', 'processing', 'waiting_approval', 'completed'].includes(prerequisite.status)
+      ) {
+        await this.slack.sendThreadReply(
+          channel,
+          threadTs,
+          `⛔ Task \`${prerequisite.id.substring(0, 8)}\` already ${prerequisite.status.replace('_', ' ')}, so nothing can run after it.`
+        );
+        return undefined;
+      }
+
+      if (!dependencies.includes(prerequisite.id)) {
+        dependencies.push(prerequisite.id);
+      }
+    }
+
+    return dependencies;
   }
 
   private async processTask(task: Task) {
+    let progress: TaskProgress | undefined;
+    const abortController = new AbortController();
+    this.runningTasks.set(task.id, abortController);
+
     try {
       logger.info('Processing task', { taskId: task.id, type: task.type });
 
@@ -344,12 +888,16 @@ When asked your name, always say "FabAI".`,
         return;
       }
 
-      // Notify user that we're starting
-      await this.slack.sendThreadReply(
+      // Notify user that we're starting; this message is then edited in place as the agent works
+      progress = new TaskProgress(
+        this.slack,
         channel,
         threadTs,
-        `🚀 Starting work on task \`${task.id.substring(0, 8)}\`...\n\n*Task:* ${task.description}\n*Website:* ${task.websiteTarget || 'N/A'}`
+        task.id,
+        `🚀 Working on task \`${task.id.substring(0, 8)}\`\n\n*Task:* ${task.description}\n*Website:* ${task.websiteTarget || 'N/A'}`,
+        parseInt(process.env.PROGRESS_UPDATE_INTERVAL_SECONDS || '3') * 1000
       );
+      await progress.start();
 
       // Get website config
       const websiteConfig = await this.monorepo.getWebsiteConfig(task.websiteTarget!);
@@ -357,41 +905,72 @@ When asked your name, always say "FabAI".`,
         throw new Error(`Website config not found for ${task.websiteTarget}`);
       }
 
-      const websitePath = await this.monorepo.getWebsitePath(task.websiteTarget!);
-      const fullPath = `${process.env.MONOREPO_PATH}/${websiteConfig.path}`;
-
-      const prompt = `You are working on a website development task.
-
-Task Description: ${task.description}
-Website: ${task.websiteTarget}
-Website Path: ${fullPath}
-
-Please complete this task by:
-1. Creating or modifying the necessary files in the correct directory
-2. Following web development best practices
-3. Using proper HTML/CSS/JavaScript structure
-4. Ensuring the code is clean and well-structured
-
-When you're done, provide a brief summary of what you've created/changed.`;
+      const handler = this.taskHandlers.get(task.type);
+
+      // Each task gets its own worktree so concurrent tasks never share a checkout.
+      // Tasks that change the website also get their own branch so approval produces a reviewable PR.
+      const producesChanges = handler.producesChanges;
+      const branchName = producesChanges ? `fabai/${task.id}` : undefined;
+      progress.step('Preparing workspace');
+      const worktreePath = await this.monorepo.createWorktree(task.id, branchName);
+      task.context.worktreePath = worktreePath;
+      task.context.branchName = branchName;
+      this.taskQueue.persist(task);
+
+      const fullPath = path.join(worktreePath, websiteConfig.path);
+
+      const responseText = await handler.run({
+        task,
+        websiteConfig,
+        worktreePath,
+        websitePath: fullPath,
+        progress,
+        abortController,
+      });
+      this.throwIfCancelled(abortController);
+
+      progress.step('Checking changed files');
+      const changedFiles = await this.enforceWebsiteBoundary(task, websiteConfig, producesChanges);
+
+      if (!producesChanges) {
+        // Read-only tasks report back; there is nothing to preview or approve
+        await progress.finish('✅ Finished');
+        await this.slack.sendThreadReply(
+          channel,
+          threadTs,
+          `✅ Task \`${task.id.substring(0, 8)}\` completed!\n\n${responseText}`
+        );
+        this.throwIfCancelled(abortController);
+        await this.releaseWorkspace(task);
+        this.taskQueue.completeTask(task.id, 'completed');
+        return;
+      }
 
-      let responseText = '';
+      task.context.changedFiles = changedFiles;
 
-      // Stream Claude's response to Slack
-      await this.claude.streamResponse(
-        task.requesterId,
-        prompt,
-        async (chunk) => {
-          responseText += chunk;
-        },
-        undefined
-      );
+      let changesSummary = '';
+      if (changedFiles.length > 0) {
+        progress.step('Committing and pushing changes');
+        await this.monorepo.commitChanges(
+          changedFiles,
+          this.buildCommitMessage(task),
+          worktreePath
+        );
+        await this.monorepo.pushBranch(task.context.branchName, worktreePath);
+        changesSummary = `\n\n🌿 *Branch:* \`${task.context.branchName}\` (${changedFiles.length} file${changedFiles.length === 1 ? '' : 's'} changed)`;
+      } else {
+        changesSummary = '\n\n_No file changes were made._';
+      }
+      this.taskQueue.persist(task);
 
       // Start preview server
+      progress.step('Starting preview');
       let previewUrl = '';
       try {
         const preview = await this.previewManager.createPreview(
           task.id,
           task.websiteTarget!,
+          // Website updates are previewed from their worktree until approved or rejected
           fullPath,
           websiteConfig.devCommand,
           undefined // Don't use branch name - just website name
@@ -404,16 +983,51 @@ When you're done, provide a brief summary of what you've created/changed.`;
       }
 
       // Send completion message with preview link
+      this.throwIfCancelled(abortController);
+      await progress.finish('✅ Finished');
       await this.slack.sendThreadReply(
         channel,
         threadTs,
-        `✅ Task \`${task.id.substring(0, 8)}\` completed!\n\n${responseText}\n\n🔗 *Test Link:* ${previewUrl}\n\n_Please review the changes and provide feedback._`
+        `✅ Task \`${task.id.substring(0, 8)}\` completed!\n\n${responseText}${changesSummary}\n\n🔗 *Test Link:* ${previewUrl}\n\n_Please review the changes and provide feedback._`
       );
 
+      // A cancel may have arrived while the replies above were being sent
+      this.throwIfCancelled(abortController);
+
+      if (task.context.changedFiles.length > 0) {
+        // The branch stays around until the approval workflow signs off on it
+        this.taskQueue.completeTask(task.id, 'waiting_approval');
+        await this.requestApproval(task);
+        return;
+      }
+
+      await this.releaseWorkspace(task);
+
       // Mark as completed
       this.taskQueue.completeTask(task.id, 'completed');
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Cancelled from Slack; the queue has already released the task's slot
+        logger.info('Task stopped after cancellation', { taskId: task.id });
+        await progress?.finish('🛑 Cancelled');
+        // Cancelled after the branch was pushed or the preview started: drop those too
+        if (task.context.previewUrl) {
+          await this.previewManager.closePreview(task.id);
+        }
+        if (task.context.branchName && task.context.changedFiles?.length > 0) {
+          await this.monorepo.deleteRemoteBranch(task.context.branchName);
+        }
+        await this.releaseWorkspace(task);
+        await this.slack.sendThreadReply(
+          task.context.channel,
+          task.context.threadTs,
+          `🛑 Task \`${task.id.substring(0, 8)}\` was cancelled. Its workspace has been cleaned up and nothing was submitted.`
+        );
+        return;
+      }
+
       logger.error('Error processing task', { error, taskId: task.id });
+      await progress?.finish('❌ Failed');
 
       const channel = task.context?.channel;
       const threadTs = task.context?.threadTs;
@@ -422,185 +1036,1404 @@ When you're done, provide a brief summary of what you've created/changed.`;
         await this.slack.sendThreadReply(
           channel,
           threadTs,
-          `❌ Task \`${task.id.substring(0, 8)}\` failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+          error instanceof PathSecurityError
+            ? `🛡️ Task \`${task.id.substring(0, 8)}\` was stopped for touching an unsafe path (${error.violation}): ${error.message}`
+            : `❌ Task \`${task.id.substring(0, 8)}\` failed: ${error instanceof Error ? error.message : 'Unknown error'}`
         );
       }
 
+      await this.releaseWorkspace(task);
+
       this.taskQueue.failTask(task.id, error as Error);
+    } finally {
+      this.runningTasks.delete(task.id);
     }
   }
 
-  private async processWebsiteUpdate(task: Task) {
-    // Use Claude to generate the code changes
-    const response = await this.claude.sendMessage(
-      task.requesterId,
-      `Generate the code changes needed for this website update:
-
-${task.description}
+  private throwIfCancelled(abortController: AbortController) {
+    if (abortController.signal.aborted) {
+      throw new Error('Task was cancelled');
+    }
+  }
 
-Website: ${task.websiteTarget}
+  // Tasks may only change their own website (read-only tasks nothing at all); anything else
+  // is reverted before the commit and listed in the thread
+  private async enforceWebsiteBoundary(
+    task: Task,
+    websiteConfig: WebsiteConfig,
+    producesChanges: boolean
+  ): Promise<string[]> {
+    const worktreePath: string = task.context.worktreePath;
+    const changedFiles = await this.monorepo.getChangedFiles(worktreePath);
+    const prefix = `${websiteConfig.path.replace(/\/+$/, '')}/`;
+    const offending = changedFiles.filter((file) => !producesChanges || !file.startsWith(prefix));
+
+    if (offending.length === 0) {
+      return changedFiles;
+    }
 
-Provide the changes as a list of files to modify with their new content.`,
-      undefined,
-      false
-    );
+    logger.warn('Task changed files outside its website', {
+      taskId: task.id,
+      website: task.websiteTarget,
+      mode: this.guardrailMode,
+      offending,
+    });
 
-    // Parse response and apply changes
-    // This is a simplified version - real implementation would be more sophisticated
-    task.context.aiResponse = response;
-  }
+    let quarantinePath: string | undefined;
+    if (this.guardrailMode === 'quarantine') {
+      quarantinePath = await this.quarantineFiles(task.id, worktreePath, offending);
+    }
+    await this.monorepo.revertFiles(offending, worktreePath);
+    task.context.quarantinedFiles = offending;
 
-  private async processFileAnalysis(task: Task) {
-    // Analyze files using Claude
-    const response = await this.claude.sendMessage(
-      task.requesterId,
-      `Analyze these files and provide insights:
+    const listed = offending.slice(0, 20).map((file) => `• \`${file}\``);
+    if (offending.length > listed.length) {
+      listed.push(`• _...and ${offending.length - listed.length} more_`);
+    }
+    const scope = producesChanges
+      ? `outside *${task.websiteTarget}* (\`${prefix}\`)`
+      : 'during a read-only task';
+    const kept = quarantinePath ? ` A copy was kept in \`${quarantinePath}\` for review.` : '';
 
-${task.description}`,
-      undefined,
-      false
+    await this.slack.sendThreadReply(
+      task.context.channel,
+      task.context.threadTs,
+      `🛡️ Task \`${task.id.substring(0, 8)}\` changed ${offending.length} file${offending.length === 1 ? '' : 's'} ${scope}. These changes were reverted.${kept}\n${listed.join('\n')}`
     );
 
-    task.context.analysis = response;
+    if (this.guardrailMode === 'fail') {
+      throw new Error(`Changed files outside ${task.websiteTarget}; the task was stopped`);
+    }
+
+    return changedFiles.filter((file) => !offending.includes(file));
   }
 
-  private async processCodeReview(task: Task) {
-    // Review code using Claude
-    const files = await this.monorepo.getChangedFiles();
+  private async quarantineFiles(
+    taskId: string,
+    worktreePath: string,
+    files: string[]
+  ): Promise<string> {
+    const target = path.join(this.quarantineRoot, taskId);
 
     for (const file of files) {
-      const content = await this.monorepo.readFile(task.websiteTarget!, file);
-      const review = await this.claude.analyzeCode(content, file.split('.').pop()!, 'review');
-      task.context.reviews = task.context.reviews || {};
-      task.context.reviews[file] = review;
+      try {
+        const destination = path.join(target, file);
+        await fs.mkdir(path.dirname(destination), { recursive: true });
+        await fs.cp(path.join(worktreePath, file), destination, { recursive: true });
+      } catch (error) {
+        // Deleted files have nothing to keep
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          logger.warn('Failed to quarantine file', { error, taskId, file });
+        }
+      }
     }
-  }
-
-  private async processAsset(task: Task) {
-    // Process and optimize assets
-    task.context.processed = true;
-  }
 
-  private async handleFileUpload(userId: string, fileId: string, channelId: string) {
-    // Download and process file
-    // This would integrate with the FileProcessor
+    return target;
   }
 
-  private async handleApproval(userId: string, messageTs: string) {
-    // Extract task ID from message and approve
-  }
+  private async releaseWorkspace(task: Task) {
+    for (const attachment of (task.context?.attachments || []) as TaskAttachment[]) {
+      await this.fileProcessor.cleanup(attachment.localPath);
+    }
 
-  private async handleRejection(userId: string, messageTs: string) {
-    // Extract task ID from message and reject
-  }
+    if (task.context?.worktreePath) {
+      await this.monorepo.removeWorktree(task.context.worktreePath);
+      delete task.context.worktreePath;
+    }
 
-  private async handleApprovalCommand(userId: string, taskId: string, channel: string, threadTs: string) {
-    try {
-      await this.approvalEngine.approve(taskId, userId);
-      await this.slack.sendMessage(channel, `✅ Task ${taskId} approved!`);
-    } catch (error) {
-      await this.slack.sendMessage(
-        channel,
-        `Failed to approve: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+    // The branch has already been pushed if it's needed for a PR
+    if (task.context?.branchName) {
+      await this.monorepo.cleanup(task.context.branchName);
     }
+
+    this.taskQueue.persist(task);
   }
 
-  private async handleStatusCommand(channel: string, threadTs: string) {
-    const status = this.taskQueue.getQueueStatus();
-    const previews = this.previewManager.getAllPreviews();
+  private buildCommitMessage(task: Task): string {
+    const summary = task.description.split('\n')[0].trim();
+    const subject = summary.length > 72 ? `${summary.substring(0, 69)}...` : summary;
 
-    let message = `📊 *System Status*
+    return `${task.websiteTarget}: ${subject}\n\nRequested by FabAI task ${task.id}`;
+  }
 
-*Queue Summary:*
-• Queued tasks: ${status.queued}
-• Processing: ${status.processing}
+  private async processWebsiteUpdate(context: TaskHandlerContext): Promise<string> {
+    const { task, worktreePath, websitePath, progress, abortController } = context;
+    const writablePaths = this.getWritablePaths(task);
+    const prompt = `You are working on a website development task.
 
-*Active Previews:* ${previews.length}
-${previews.map((p) => `• ${p.websiteName}: ${p.url}`).join('\n') || '• None'}
+Task Description: ${task.description}
+Website: ${task.websiteTarget}
+Website Path: ${websitePath}
+${writablePaths ? `Files you may edit (relative to the website path): ${writablePaths.join(', ')}\n` : ''}${this.formatAttachmentsForPrompt(task.context.attachments)}
 
-`;
+Please complete this task by:
+1. Creating or modifying the necessary files in the correct directory
+2. Following web development best practices
+3. Using proper HTML/CSS/JavaScript structure
+4. Ensuring the code is clean and well-structured
 
-    // Show currently processing tasks
-    if (status.processingTasks.length > 0) {
-      message += `*🔄 Currently Processing:*\n`;
-      for (const task of status.processingTasks) {
-        const startedAt = task.startedAt ? new Date(task.startedAt).toLocaleTimeString() : 'Unknown';
-        message += `• \`${task.id.substring(0, 8)}\` - ${task.type} (${task.priority}) - Started: ${startedAt}\n`;
-      }
-      message += '\n';
-    }
+When you're done, provide a brief summary of what you've created/changed.`;
 
-    // Show queued tasks
-    if (status.queue.length > 0) {
-      message += `*⏳ Queued Tasks:*\n`;
-      for (let i = 0; i < Math.min(5, status.queue.length); i++) {
-        const task = status.queue[i];
-        message += `${i + 1}. \`${task.id.substring(0, 8)}\` - ${task.type} (${task.priority})\n`;
-      }
-      if (status.queue.length > 5) {
-        message += `_... and ${status.queue.length - 5} more_\n`;
+    let response = '';
+    await this.claude.streamResponse(
+      task.requesterId,
+      prompt,
+      async (chunk) => {
+        response += chunk;
+      },
+      {
+        cwd: worktreePath,
+        images: await this.loadAttachedImages(task.context.attachments),
+        // The agent may only write inside this task's website folder, and only to the files it locked
+        permissions: { profile: 'edit-in-website', websitePath, writablePaths },
+        onEvent: (event) => progress.handleAgentEvent(event),
+        abortController,
       }
-    } else {
-      message += `*⏳ Queue is empty*\n`;
-    }
+    );
 
-    await this.slack.sendThreadReply(channel, threadTs, message);
+    task.context.aiResponse = response;
+    return response;
   }
 
-  private async handleTaskFailure(task: Task, error: Error) {
+  private async processFileAnalysis(context: TaskHandlerContext): Promise<string> {
+    const { task, worktreePath, websitePath, progress, abortController } = context;
+    const prompt = `You are analyzing files for a website team. Do not create, modify or delete any files.
+
+Request: ${task.description}
+Website: ${task.websiteTarget}
+Website Path: ${websitePath}
+${this.formatAttachmentsForPrompt(task.context.attachments)}
+
+Answer the request using the attached files and the website's existing content. Be specific:
+quote the relevant parts, point to file paths where something lives, and end with clear
+recommendations the team can act on.`;
+
+    let response = '';
+    await this.claude.streamResponse(
+      task.requesterId,
+      prompt,
+      async (chunk) => {
+        response += chunk;
+      },
+      {
+        cwd: worktreePath,
+        images: await this.loadAttachedImages(task.context.attachments),
+        permissions: { profile: 'read-only' },
+        onEvent: (event) => progress.handleAgentEvent(event),
+        abortController,
+      }
+    );
+
+    task.context.analysis = response;
+    return response;
+  }
+
+  private async processCodeReview(context: TaskHandlerContext): Promise<string> {
+    const { task, worktreePath, websitePath, progress, abortController } = context;
+    const prompt = `You are reviewing the code of a static website. Do not create, modify or delete any files.
+
+Review request: ${task.description}
+Website: ${task.websiteTarget}
+Website Path: ${websitePath}
+${this.formatAttachmentsForPrompt(task.context.attachments)}
+
+Look at the HTML, CSS and JavaScript under the website path. Report bugs, broken links or markup,
+accessibility and SEO problems, security issues (inline secrets, unsafe scripts) and performance issues.
+
+Reply with your findings as a JSON array in a \`\`\`json code block, one object per finding:
+{"severity": "critical" | "major" | "minor" | "info", "file": "<path relative to the website>",
+ "line": <number or null>, "title": "<short title>", "detail": "<what is wrong and why it matters>",
+ "suggestion": "<how to fix it>"}
+After the code block, write a short overall summary.`;
+
+    let response = '';
+    await this.claude.streamResponse(
+      task.requesterId,
+      prompt,
+      async (chunk) => {
+        response += chunk;
+      },
+      {
+        cwd: worktreePath,
+        permissions: { profile: 'read-only' },
+        onEvent: (event) => progress.handleAgentEvent(event),
+        abortController,
+      }
+    );
+
+    const findings = this.parseReviewFindings(response);
+    if (!findings) {
+      logger.warn('Code review did not return structured findings', { taskId: task.id });
+      task.context.reviewReport = response;
+      return response;
+    }
+
+    task.context.findings = findings;
+    const summary = response.replace(/```json[\s\S]*?```/, '').trim();
+    return this.formatReviewReport(findings, summary);
+  }
+
+  private parseReviewFindings(response: string): ReviewFinding[] | undefined {
+    const match = response.match(/```json\s*([\s\S]*?)```/);
+    if (!match) return undefined;
+
+    try {
+      const parsed = JSON.parse(match[1]);
+      if (!Array.isArray(parsed)) return undefined;
+
+      return parsed
+        .filter((f) => f && typeof f.title === 'string')
+        .map((f) => ({
+          severity: f.severity in SEVERITY_ICONS ? f.severity : 'info',
+          file: String(f.file || ''),
+          line: typeof f.line === 'number' ? f.line : undefined,
+          title: f.title,
+          detail: String(f.detail || ''),
+          suggestion: f.suggestion ? String(f.suggestion) : undefined,
+        }));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private formatReviewReport(findings: ReviewFinding[], summary: string): string {
+    if (findings.length === 0) {
+      return `*Code review:* no issues found.\n\n${summary}`;
+    }
+
+    const severities = Object.keys(SEVERITY_ICONS) as FindingSeverity[];
+    const counts = severities
+      .map((severity) => ({
+        severity,
+        count: findings.filter((f) => f.severity === severity).length,
+      }))
+      .filter(({ count }) => count > 0)
+      .map(({ severity, count }) => `${count} ${severity}`)
+      .join(', ');
+
+    const lines = severities.flatMap((severity) =>
+      findings
+        .filter((f) => f.severity === severity)
+        .map((f) => {
+          const location = f.line ? `${f.file}:${f.line}` : f.file;
+          const suggestion = f.suggestion ? `\n   _Suggestion:_ ${f.suggestion}` : '';
+          return `${SEVERITY_ICONS[severity]} *${f.title}* \`${location}\`\n   ${f.detail}${suggestion}`;
+        })
+    );
+
+    return `*Code review: ${findings.length} finding${findings.length === 1 ? '' : 's'}* (${counts})\n\n${lines.join('\n\n')}${summary ? `\n\n${summary}` : ''}`;
+  }
+
+  private async processAsset(context: TaskHandlerContext): Promise<string> {
+    const { task, worktreePath, progress, abortController } = context;
+    const website = task.websiteTarget!;
+    const sources = await this.collectAssetSources(task, worktreePath);
+
+    if (sources.length === 0) {
+      return 'No images found to process. Upload images in this thread or ask me to optimize an existing site.';
+    }
+
+    const report: string[] = [];
+
+    for (const [index, source] of sources.entries()) {
+      this.throwIfCancelled(abortController);
+      progress.step(`Optimizing ${source.targetPath} (${index + 1}/${sources.length})`);
+      const { dir, name } = path.posix.parse(source.targetPath);
+      const prefix = dir ? `${dir}/${name}` : name;
+
+      const optimized = await this.fileProcessor.generateResponsiveVariants(source.buffer);
+      for (const variant of optimized.variants) {
+        await this.monorepo.writeFile(
+          website,
+          `${prefix}-${variant.width}.${variant.format === 'jpeg' ? 'jpg' : variant.format}`,
+          variant.buffer,
+          worktreePath
+        );
+      }
+
+      // The original path stays valid for existing markup, just smaller, so it keeps the source's format
+      const recompressed = await this.fileProcessor.optimizeImage(source.buffer);
+      const recompressedFormat = (await this.fileProcessor.detectImageFormat(source.buffer)) || '';
+      if (!source.existing || recompressed.length < source.buffer.length) {
+        await this.monorepo.writeFile(website, source.targetPath, recompressed, worktreePath);
+      }
+
+      const largestWidth = Math.max(...optimized.variants.map((v) => v.width));
+      const fullSize = (format: string) =>
+        optimized.variants.find((v) => v.width === largestWidth && v.format === format)!.buffer.length;
+      const best = Math.min(fullSize('avif'), fullSize('webp'), recompressed.length);
+      const saved = Math.round((1 - best / optimized.originalBytes) * 100);
+
+      const srcset = (format: string) =>
+        optimized.variants
+          .filter((v) => v.format === format)
+          .map((v) => `${prefix}-${v.width}.${format === 'jpeg' ? 'jpg' : format} ${v.width}w`)
+          .join(', ');
+
+      report.push(
+        `• *${source.targetPath}*: ${this.formatBytes(optimized.originalBytes)} → ${this.formatBytes(fullSize('avif'))} AVIF / ${this.formatBytes(fullSize('webp'))} WebP / ${this.formatBytes(recompressed.length)} ${recompressedFormat.toUpperCase()} (${saved > 0 ? `-${saved}%` : 'no savings'})\n   \`srcset="${srcset('webp')}"\``
+      );
+    }
+
+    task.context.assetReport = report;
+    logger.info('Assets processed', { taskId: task.id, files: sources.length });
+
+    return `🖼️ Optimized ${sources.length} image${sources.length === 1 ? '' : 's'}:\n${report.join('\n')}`;
+  }
+
+  private async collectAssetSources(
+    task: Task,
+    worktreePath: string
+  ): Promise<{ targetPath: string; buffer: Buffer; existing: boolean }[]> {
+    // Vector and exotic formats can't be recompressed in place, so they're left alone
+    const uploads = ((task.context.attachments || []) as TaskAttachment[]).filter((a) =>
+      this.fileProcessor.canOptimizeImage(a.mimeType)
+    );
+
+    if (uploads.length > 0) {
+      return Promise.all(
+        uploads.map(async (upload) => ({
+          targetPath: `assets/${upload.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`,
+          buffer: await fs.readFile(upload.localPath),
+          existing: false,
+        }))
+      );
+    }
+
+    // No uploads: optimize the website's own heavy raster images, skipping
+    // variants generated on a previous run
+    const files = await this.monorepo.listFiles(task.websiteTarget!, '', worktreePath);
+    const candidates = files.filter(
+      (file) => /\.(png|jpe?g)$/i.test(file) && !/-\d+\.(png|jpe?g)$/i.test(file)
+    );
+
+    const sources: { targetPath: string; buffer: Buffer; existing: boolean }[] = [];
+    for (const file of candidates) {
+      const buffer = await this.monorepo.readBinaryFile(task.websiteTarget!, file, worktreePath);
+      if (buffer.length >= ASSET_MIN_BYTES) {
+        sources.push({ targetPath: file.split(path.sep).join('/'), buffer, existing: true });
+      }
+      if (sources.length >= ASSET_MAX_FILES) break;
+    }
+
+    return sources;
+  }
+
+  private formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  private formatDuration(ms: number): string {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 1) return '<1m';
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  }
+
+  private async handleFileUpload(userId: string, fileId: string, channelId: string) {
+    try {
+      const { file } = await this.slack.getFileInfo(fileId);
+      if (!file?.url_private_download) return;
+
+      // Only pick up files shared into a thread the bot is already part of
+      const share = file.shares?.public?.[channelId]?.[0] || file.shares?.private?.[channelId]?.[0];
+      const threadTs = share?.thread_ts || share?.ts;
+      if (!threadTs || !this.activeThreads.has(threadTs)) return;
+
+      const name = file.name || fileId;
+      const declaredType = file.mimetype || 'application/octet-stream';
+      const rejectUpload = (reason: string) =>
+        this.slack.sendThreadReply(channelId, threadTs, `⛔ I can't use *${name}*. ${reason}`);
+
+      // Cheap checks on what Slack reports before spending time on the download
+      if (
+        declaredType !== 'application/octet-stream' &&
+        !this.fileProcessor.isAllowedType(declaredType, this.allowedUploadTypes)
+      ) {
+        await rejectUpload(
+          `${declaredType} files aren't allowed. Allowed types: ${this.allowedUploadTypes.join(', ')}`
+        );
+        return;
+      }
+      if (file.size && file.size > this.fileProcessor.getSizeLimit(declaredType)) {
+        await rejectUpload(
+          `It's larger than the ${this.fileProcessor.getSizeLimit(declaredType) / (1024 * 1024)} MB limit for ${declaredType}.`
+        );
+        return;
+      }
+
+      const downloaded = await this.fileProcessor.downloadFile(
+        file.url_private_download,
+        process.env.SLACK_BOT_TOKEN || ''
+      );
+
+      // Don't trust the type Slack reports; check the actual bytes
+      const validation = await this.fileProcessor.validateFile(
+        downloaded,
+        this.allowedUploadTypes,
+        declaredType
+      );
+      if (!validation.valid || !validation.mimeType) {
+        await rejectUpload(validation.rejection?.message || 'It failed validation.');
+        return;
+      }
+
+      const { buffer, mimeType } = validation;
+
+      const safeName = name.replace(/[^a-zA-Z0-9._-]/g, '_');
+      const localPath = await this.fileProcessor.saveFile(
+        await this.fileProcessor.getTempFilePath(`${fileId}-${safeName}`),
+        buffer
+      );
+
+      const attachment: TaskAttachment = {
+        fileId,
+        name,
+        mimeType,
+        size: buffer.length,
+        localPath,
+        uploadedBy: userId,
+      };
+      let note = validation.warnings.length > 0 ? ` (${validation.warnings.join('; ')})` : '';
+      if (this.fileProcessor.canExtractText(mimeType)) {
+        try {
+          attachment.text = await this.fileProcessor.extractTextFromFile(buffer, mimeType);
+          if (!mimeType.startsWith('text/')) {
+            const words = attachment.text.split(/\s+/).filter(Boolean).length;
+            note = words > 0 ? ` (${words} words of text extracted)` : ' (no text found in it)';
+          }
+        } catch {
+          note = " (I couldn't read its text, so only the file itself is attached)";
+        }
+      }
+
+      const attachments = this.pendingAttachments.get(threadTs) || [];
+      attachments.push(attachment);
+      this.pendingAttachments.set(threadTs, attachments);
+
+      logger.info('File attached to thread', { fileId, threadTs, mimeType, size: buffer.length });
+
+      await this.slack.sendThreadReply(
+        channelId,
+        threadTs,
+        `📎 Got *${name}*${note}. I'll use it for the next request in this thread.`
+      );
+    } catch (error) {
+      logger.error('Failed to handle file upload', { error, fileId, userId });
+    }
+  }
+
+  // Screenshots and mockups go to the model as real image blocks, not just file paths
+  private async loadAttachedImages(attachments: TaskAttachment[] = []): Promise<ImageInput[]> {
+    const images: ImageInput[] = [];
+
+    for (const attachment of attachments.filter((a) => a.mimeType.startsWith('image/'))) {
+      try {
+        const buffer = await fs.readFile(attachment.localPath);
+        images.push(await this.fileProcessor.processImage(buffer));
+      } catch (error) {
+        logger.warn('Failed to load attached image', { error, path: attachment.localPath });
+      }
+    }
+
+    return images;
+  }
+
+  private formatAttachmentsForPrompt(attachments: TaskAttachment[] = []): string {
+    if (attachments.length === 0) return '';
+
+    const lines = attachments.map((a) => {
+      const entry = `- ${a.name} (${a.mimeType}, ${a.size} bytes) at ${path.resolve(a.localPath)}`;
+      if (!a.text) return entry;
+
+      // Inline extracted text so the agent doesn't need to go looking for it; documents come
+      // through as markdown with their headings, lists and tables intact
+      const label = a.mimeType.startsWith('text/') ? '' : ' Extracted content (markdown):';
+      const text =
+        a.text.length <= MAX_INLINE_TEXT_CHARS
+          ? a.text
+          : `${a.text.substring(0, MAX_INLINE_TEXT_CHARS)}\n[... truncated, ${a.text.length} characters in total]`;
+      return `${entry}${label}\n\`\`\`\n${text}\n\`\`\``;
+    });
+
+    return `
+Attached files (uploaded by the requester; copy them into the website if the task calls for it):
+${lines.join('\n')}
+`;
+  }
+
+  private async requestApproval(task: Task) {
+    // Policies match paths relative to the website folder
+    const websiteConfig = await this.monorepo.getWebsiteConfig(task.websiteTarget!);
+    const prefix = websiteConfig ? `${websiteConfig.path}/` : '';
+    const changedFiles: string[] = (task.context.changedFiles || []).map((file: string) =>
+      prefix && file.startsWith(prefix) ? file.substring(prefix.length) : file
+    );
+
+    this.approvalEngine.createWorkflow(task.id, task.requesterId, {
+      websiteName: task.websiteTarget,
+      taskType: task.type,
+      changedFiles,
+    });
+    this.pendingApprovals.set(task.id, task);
+
+    const card = this.buildApprovalCard(task);
+    if (!card) return;
+
+    const result = await this.slack.postApprovalCard(
+      task.context.channel,
+      task.context.threadTs,
+      card
+    );
+
+    if (result.ts) {
+      this.approvalMessages.set(result.ts, task.id);
+      task.context.approvalMessageTs = result.ts;
+      this.taskQueue.persist(task);
+    }
+  }
+
+  private buildApprovalCard(task: Task, outcome?: ApprovalOutcome): ApprovalCard | undefined {
+    const workflow = this.approvalEngine.getWorkflow(task.id);
+    if (!workflow) return undefined;
+
+    return {
+      task,
+      workflow,
+      approvers: this.approvalEngine.getNextApprovers(task.id),
+      outcome,
+    };
+  }
+
+  // The card is built before the first await, so callers may forget the approval right after calling
+  private async refreshApprovalCard(task: Task, outcome?: ApprovalOutcome) {
+    const card = this.buildApprovalCard(task, outcome);
+    if (!card || !task.context.approvalMessageTs) return;
+
+    try {
+      await this.slack.updateApprovalCard(
+        task.context.channel,
+        task.context.approvalMessageTs,
+        card
+      );
+    } catch (error) {
+      logger.error('Failed to update approval card', { error, taskId: task.id });
+    }
+  }
+
+  private findPendingApproval(taskRef: string | undefined, threadTs: string): Task | undefined {
+    const pending = Array.from(this.pendingApprovals.values());
+
+    // Users only ever see the short id, so match on prefix
+    if (taskRef) {
+      return pending.find((t) => t.id.startsWith(taskRef));
+    }
+
+    // Without an id, fall back to the single pending task in this thread
+    const inThread = pending.filter((t) => t.context.threadTs === threadTs);
+    return inThread.length === 1 ? inThread[0] : undefined;
+  }
+
+  private forgetApproval(taskId: string) {
+    this.pendingApprovals.delete(taskId);
+    for (const [messageTs, id] of this.approvalMessages.entries()) {
+      if (id === taskId) {
+        this.approvalMessages.delete(messageTs);
+      }
+    }
+    this.approvalEngine.cleanup(taskId);
+  }
+
+  private async approveTask(task: Task, userId: string): Promise<boolean> {
+    try {
+      return await this.approvalEngine.approve(task.id, userId);
+    } catch (error) {
+      await this.slack.sendThreadReply(
+        task.context.channel,
+        task.context.threadTs,
+        `Failed to approve: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return false;
+    }
+  }
+
+  private async rejectTask(
+    task: Task,
+    userId: string,
+    decision: ReasonModalMetadata['decision'],
+    reason: string
+  ) {
+    try {
+      if (decision === 'changes_requested') {
+        await this.approvalEngine.requestChanges(task.id, userId, reason);
+      } else {
+        await this.approvalEngine.reject(task.id, userId, reason);
+      }
+    } catch (error) {
+      await this.slack.sendThreadReply(
+        task.context.channel,
+        task.context.threadTs,
+        `Failed to ${decision === 'rejected' ? 'reject' : 'request changes'}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private async handleApproval(userId: string, messageTs: string) {
+    const taskId = this.approvalMessages.get(messageTs);
+    const task = taskId ? this.pendingApprovals.get(taskId) : undefined;
+    if (!task) return; // Not an approval card
+
+    await this.approveTask(task, userId);
+  }
+
+  private async handleRejection(userId: string, messageTs: string) {
+    const taskId = this.approvalMessages.get(messageTs);
+    const task = taskId ? this.pendingApprovals.get(taskId) : undefined;
+    if (!task) return; // Not an approval card
+
+    await this.rejectTask(task, userId, 'rejected', 'Rejected via ❌ reaction');
+  }
+
+  private async handleApprovalButton(
+    userId: string,
+    taskId: string,
+    action: string,
+    triggerId: string
+  ) {
+    const task = this.pendingApprovals.get(taskId);
+    if (!task) {
+      logger.warn('Approval button clicked for unknown task', { taskId, userId });
+      return;
+    }
+
+    if (action === APPROVAL_ACTIONS.approve) {
+      await this.approveTask(task, userId);
+      return;
+    }
+
+    // Reject and request changes both need a reason before acting
+    await this.slack.openReasonModal(triggerId, {
+      taskId,
+      decision: action === APPROVAL_ACTIONS.reject ? 'rejected' : 'changes_requested',
+    });
+  }
+
+  private async handleReasonSubmitted(userId: string, metadata: ReasonModalMetadata, reason: string) {
+    const task = this.pendingApprovals.get(metadata.taskId);
+    if (!task) {
+      logger.warn('Reason submitted for unknown task', { taskId: metadata.taskId, userId });
+      return;
+    }
+
+    await this.rejectTask(task, userId, metadata.decision, reason);
+  }
+
+  private async handleApprovalCommand(
+    userId: string,
+    taskRef: string | undefined,
+    channel: string,
+    threadTs: string
+  ) {
+    const task = this.findPendingApproval(taskRef, threadTs);
+    if (!task) {
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        taskRef
+          ? `No task awaiting approval matches \`${taskRef}\`.`
+          : 'Please specify which task to approve: `approve <taskId>`'
+      );
+      return;
+    }
+
+    await this.approveTask(task, userId);
+  }
+
+  private async handleDeployCommand(
+    userId: string,
+    websiteName: string | undefined,
+    environment: string = 'production',
+    channel: string,
+    threadTs: string
+  ) {
+    const environments = this.deployments.getEnvironments();
+    const websites = this.monorepo.getWebsites().map((w) => w.name);
+
+    if (!websiteName || !websites.includes(websiteName.toLowerCase())) {
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        `Usage: \`deploy <website> [environment]\`\n\n*Websites:* ${websites.join(', ')}\n*Environments:* ${Object.keys(environments).join(', ')}`
+      );
+      return;
+    }
+
+    if (!environments[environment]) {
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        `⛔ Unknown environment "${environment}". Available: ${Object.keys(environments).join(', ')}`
+      );
+      return;
+    }
+
+    const website = websiteName.toLowerCase();
+    await this.slack.sendThreadReply(
+      channel,
+      threadTs,
+      `🚀 Deploying *${website}* to *${environment}* (\`${environments[environment]}\`)...`
+    );
+
+    try {
+      const record = await this.deployments.deploy(website, environment, userId, async (step) => {
+        await this.slack.sendThreadReply(channel, threadTs, `• ${step}`);
+      });
+
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        `✅ Deployed *${website}* to *${environment}* at \`${record.commitSha?.substring(0, 7)}\`\n_Deployment \`${record.id.substring(0, 8)}\` triggered by <@${userId}>_`
+      );
+    } catch (error) {
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        `❌ Deployment of *${website}* to *${environment}* failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private async handleRollbackCommand(
+    userId: string,
+    websiteName: string | undefined,
+    ref: string | undefined,
+    channel: string,
+    threadTs: string
+  ) {
+    const websites = this.monorepo.getWebsites().map((w) => w.name);
+    if (!websiteName || !websites.includes(websiteName.toLowerCase())) {
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        `Usage: \`rollback <website> [to <sha|deployment-id>]\`\n\n*Websites:* ${websites.join(', ')}`
+      );
+      return;
+    }
+
+    const website = websiteName.toLowerCase();
+    await this.slack.sendThreadReply(channel, threadTs, `⏪ Preparing rollback of *${website}*...`);
+
+    try {
+      const plan = await this.deployments.prepareRollback(website, ref, userId);
+      const shortSha = plan.target.commitSha!.substring(0, 7);
+
+      const prNumber = await this.github.createPullRequest(
+        plan.rollbackBranch,
+        plan.branch,
+        `Rollback ${website} on ${plan.environment} to ${shortSha}`,
+        `## Rollback\n\nRestores \`${website}\` on \`${plan.branch}\` to deployment \`${plan.target.id.substring(0, 8)}\` (\`${shortSha}\`, ${plan.target.createdAt.toISOString()}).\n\nRequested by Slack user ${userId}.\n\n---\n*🤖 This PR was automatically generated by FabAI Slack Bot*`
+      );
+      await this.github.addLabels(prNumber, ['rollback']).catch(() => undefined);
+
+      // Rollbacks skip the normal stages: one superadmin emergency approval merges them
+      const workflowId = `rollback-${plan.id}`;
+      this.approvalEngine.createWorkflow(workflowId, userId);
+      this.pendingRollbacks.set(workflowId, { plan, prNumber, channel, threadTs });
+
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        `🚨 Rollback PR opened: ${this.github.getPullRequestUrl(prNumber)}\n*${website}* on *${plan.environment}* → \`${shortSha}\``
+      );
+
+      if (this.users.get(userId)?.role === 'superadmin') {
+        this.approvalEngine.emergencyApprove(workflowId, userId);
+        return;
+      }
+
+      const superadmins = Array.from(this.users.values()).filter((u) => u.role === 'superadmin');
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        `${superadmins.map((u) => `<@${u.userId}>`).join(', ')} please confirm with \`rollback confirm ${plan.id.substring(0, 8)}\` to merge it immediately.`
+      );
+    } catch (error) {
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        `❌ Rollback of *${website}* failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private async handleRollbackConfirm(
+    userId: string,
+    rollbackRef: string | undefined,
+    channel: string,
+    threadTs: string
+  ) {
+    const workflowId = Array.from(this.pendingRollbacks.keys()).find(
+      (id) => rollbackRef && id.startsWith(`rollback-${rollbackRef}`)
+    );
+    if (!workflowId) {
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        `No pending rollback matches \`${rollbackRef || ''}\`.`
+      );
+      return;
+    }
+
+    try {
+      this.approvalEngine.emergencyApprove(workflowId, userId);
+    } catch (error) {
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        `Failed to confirm rollback: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private async handleEmergencyApproval(workflow: ApprovalWorkflow, user: User) {
+    const rollback = this.pendingRollbacks.get(workflow.taskId);
+    if (!rollback) return;
+
+    const { plan, prNumber, channel, threadTs } = rollback;
+    this.pendingRollbacks.delete(workflow.taskId);
+    this.approvalEngine.cleanup(workflow.taskId);
+
+    try {
+      await this.github.mergePullRequest(prNumber);
+      const pr = await this.github.getPullRequest(prNumber);
+      const record = await this.deployments.recordRollback(plan, pr.merge_commit_sha || undefined);
+
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        `✅ Rollback of *${plan.websiteName}* on *${plan.environment}* merged (emergency approval by <@${user.userId}>).\n_Deployment \`${record.id.substring(0, 8)}\` restores \`${plan.target.commitSha!.substring(0, 7)}\`_`
+      );
+    } catch (error) {
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        `❌ Rollback PR ${this.github.getPullRequestUrl(prNumber)} could not be merged: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private async handleStatusCommand(channel: string, threadTs: string) {
+    const status = this.taskQueue.getQueueStatus();
+    const previews = this.previewManager.getAllPreviews();
+
+    let message = `📊 *System Status*
+
+*Queue Summary:*${status.paused ? '\n• ⏸️ *Paused* (no new tasks will start)' : ''}
+• Queued tasks: ${status.queued}
+• Processing: ${status.processing}
+• Waiting on other tasks: ${status.blocked}
+• Longest wait: ${this.formatDuration(status.metrics.longestWaitMs)} · Avg. wait to start: ${this.formatDuration(status.metrics.averageStartWaitMs)}
+• Since restart: ${status.metrics.started} started · ${status.metrics.completed} done · ${status.metrics.failed} failed · ${status.metrics.cancelled} cancelled${status.metrics.agedTasks > 0 ? `\n• ⬆️ ${status.metrics.agedTasks} task${status.metrics.agedTasks === 1 ? '' : 's'} boosted for waiting long` : ''}
+
+*Active Previews:* ${previews.length}
+${previews.map((p) => `• ${p.websiteName}: ${p.url}`).join('\n') || '• None'}
+
+`;
+
+    // Show currently processing tasks
+    if (status.processingTasks.length > 0) {
+      message += `*🔄 Currently Processing:*\n`;
+      for (const task of status.processingTasks) {
+        const startedAt = task.startedAt ? new Date(task.startedAt).toLocaleTimeString() : 'Unknown';
+        const remaining = task.estimate
+          ? ` - ~${this.formatDuration(task.estimate.finishesInMs)} left`
+          : '';
+        message += `• \`${task.id.substring(0, 8)}\` - ${task.type} (${task.priority}) - Started: ${startedAt}${remaining}\n`;
+        if (task.locks.length > 0) {
+          message += `      🔒 ${task.locks.map(formatLock).join(', ')}\n`;
+        }
+      }
+      message += '\n';
+    }
+
+    // Show tasks waiting on approval
+    if (this.pendingApprovals.size > 0) {
+      message += `*🗳️ Awaiting Approval:*\n`;
+      for (const task of this.pendingApprovals.values()) {
+        const stage = this.approvalEngine.getCurrentStage(task.id);
+        message += `• \`${task.id.substring(0, 8)}\` - ${task.websiteTarget} - waiting on ${stage?.role || 'unknown'}\n`;
+      }
+      message += '\n';
+    }
+
+    // Show queued tasks
+    if (status.queue.length > 0) {
+      message += `*⏳ Queued Tasks:*\n`;
+      for (let i = 0; i < Math.min(5, status.queue.length); i++) {
+        const task = status.queue[i];
+        const eta = task.estimate
+          ? ` - starts ~${this.formatDuration(task.estimate.startsInMs)}, done ~${this.formatDuration(task.estimate.finishesInMs)}`
+          : '';
+        message += `${i + 1}. \`${task.id.substring(0, 8)}\` - ${task.type} (${task.priority})${eta}\n`;
+      }
+      if (status.queue.length > 5) {
+        message += `_... and ${status.queue.length - 5} more_\n`;
+      }
+    } else {
+      message += `*⏳ Queue is empty*\n`;
+    }
+
+    // Show which tasks are waiting on which
+    const graph = this.taskQueue.getDependencyGraph();
+    if (graph.length > 0) {
+      message += `\n*⛓️ Dependencies:*\n`;
+      for (const { task, dependsOn } of graph) {
+        message += `• ${TASK_STATUS_ICONS[task.status]} \`${task.id.substring(0, 8)}\` - ${task.type}\n`;
+        for (const dep of dependsOn) {
+          message += `      ↳ after ${TASK_STATUS_ICONS[dep.status]} \`${dep.id.substring(0, 8)}\` - ${dep.type} - ${dep.status.replace('_', ' ')}\n`;
+        }
+      }
+    }
+
+    // Show recently finished tasks, including cancellations
+    if (status.recentTasks.length > 0) {
+      message += `\n*🕘 Recently Finished:*\n`;
+      for (const task of status.recentTasks.slice(0, 5)) {
+        message += `• ${TASK_STATUS_ICONS[task.status]} \`${task.id.substring(0, 8)}\` - ${task.type} - ${task.status.replace('_', ' ')}\n`;
+      }
+    }
+
+    await this.slack.sendThreadReply(channel, threadTs, message);
+  }
+
+  private async handleTaskFailure(task: Task, error: Error) {
     // Notify user about failure
     logger.error('Task failed', { taskId: task.id, error });
   }
 
-  private async handleWorkflowApproved(workflow: any) {
-    // Create PR
-    const task = Array.from(this.taskQueue['processing'].values()).find(
-      (t) => t.id === workflow.taskId
+  private async handleDependencyFailed(task: Task, prerequisite: Task) {
+    await this.releaseWorkspace(task);
+
+    if (task.context?.channel && task.context?.threadTs) {
+      await this.slack.sendThreadReply(
+        task.context.channel,
+        task.context.threadTs,
+        `⛓️ Task \`${task.id.substring(0, 8)}\` was ${task.status} because the task it was waiting on, \`${prerequisite.id.substring(0, 8)}\`, ${prerequisite.status.replace('_', ' ')}. Send the request again once the prerequisite is sorted out.`
+      );
+    }
+  }
+
+  private async handleCancelCommand(
+    userId: string,
+    taskRef: string | undefined,
+    channel: string,
+    threadTs: string
+  ) {
+    // Without an id, fall back to the single active task in this thread
+    const task = taskRef
+      ? this.taskQueue.findTask(taskRef) || this.findPendingApproval(taskRef, threadTs)
+      : this.findThreadTask(threadTs);
+
+    if (!task) {
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        taskRef
+          ? `No queued, running or pending task matches \`${taskRef}\`.`
+          : 'Please specify which task to cancel: `cancel <taskId>`'
+      );
+      return;
+    }
+
+    const user = this.users.get(userId);
+    if (task.requesterId !== userId && (!user || user.role === 'developer')) {
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        '⛔ Only the requester or an admin can cancel this task.'
+      );
+      return;
+    }
+
+    logger.info('Cancelling task', { taskId: task.id, status: task.status, userId });
+
+    if (task.status === 'waiting_approval') {
+      await this.cancelPendingApproval(task, userId);
+      return;
+    }
+
+    // The queue emits task_cancelled, which stops the agent or cleans up the queued task
+    this.taskQueue.cancelTask(task.id);
+  }
+
+  private findThreadTask(threadTs: string): Task | undefined {
+    const inThread = [...this.taskQueue.getActiveTasks(), ...this.pendingApprovals.values()].filter(
+      (t) => t.context?.threadTs === threadTs
     );
+    return inThread.length === 1 ? inThread[0] : undefined;
+  }
 
-    if (!task) return;
+  private async handleTaskCancelled(task: Task, wasRunning: boolean) {
+    if (wasRunning) {
+      // processTask notices the abort, cleans up and reports back in the thread
+      this.runningTasks.get(task.id)?.abort();
+      return;
+    }
 
-    const changedFiles = await this.monorepo.getChangedFiles();
-    const fileChanges: FileChange[] = changedFiles.map((file) => ({
-      path: file,
-      type: 'modified', // Simplified
-    }));
+    await this.releaseWorkspace(task);
 
-    const prContext: PRContext = {
-      changes: fileChanges,
-      impactAnalysis: task.context.analysis,
-    };
+    if (task.context?.channel && task.context?.threadTs) {
+      await this.slack.sendThreadReply(
+        task.context.channel,
+        task.context.threadTs,
+        `🛑 Task \`${task.id.substring(0, 8)}\` was cancelled before it started.`
+      );
+    }
+  }
+
+  private async cancelPendingApproval(task: Task, userId: string) {
+    const cardUpdate = this.refreshApprovalCard(task, { decision: 'cancelled', userId });
+    this.forgetApproval(task.id);
+    await cardUpdate;
+
+    await this.previewManager.closePreview(task.id);
+    if (task.context.branchName) {
+      await this.monorepo.deleteRemoteBranch(task.context.branchName);
+    }
+    await this.releaseWorkspace(task);
+
+    this.taskQueue.settleTask(task, 'cancelled');
+
+    await this.slack.sendThreadReply(
+      task.context.channel,
+      task.context.threadTs,
+      `🛑 Task \`${task.id.substring(0, 8)}\` was cancelled by <@${userId}>. Its branch and preview have been cleaned up.`
+    );
+  }
+
+  private async handlePauseCommand(
+    userId: string,
+    pause: boolean,
+    channel: string,
+    threadTs: string
+  ) {
+    if (pause) {
+      this.taskQueue.pause();
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        `⏸️ Queue paused by <@${userId}>. Running tasks will finish, but no new tasks start until someone says \`resume\`.`
+      );
+    } else {
+      this.taskQueue.resume();
+      await this.slack.sendThreadReply(channel, threadTs, `▶️ Queue resumed by <@${userId}>.`);
+    }
+  }
+
+  private async handleTaskInterrupted(task: Task) {
+    const channel = task.context?.channel;
+    const threadTs = task.context?.threadTs;
+
+    await this.releaseWorkspace(task);
+
+    if (!channel || !threadTs) {
+      logger.warn('Interrupted task has no thread context', { taskId: task.id });
+      return;
+    }
+
+    try {
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        `⚠️ Task \`${task.id.substring(0, 8)}\` was interrupted by a restart while it was in progress.\n\n*Task:* ${task.description}\n\n_Any partial changes were not submitted. Please send the request again if it's still needed._`
+      );
+    } catch (error) {
+      logger.error('Failed to notify about interrupted task', { error, taskId: task.id });
+    }
+  }
+
+  private async handleApprovalLost(task: Task) {
+    // Same outcome as an approval timeout: nothing on the branch was signed off
+    if (task.context?.branchName) {
+      await this.monorepo.deleteRemoteBranch(task.context.branchName);
+    }
+    await this.releaseWorkspace(task);
+
+    if (!task.context?.channel || !task.context?.threadTs) {
+      logger.warn('Expired task has no thread context', { taskId: task.id });
+      return;
+    }
+
+    try {
+      await this.slack.sendThreadReply(
+        task.context.channel,
+        task.context.threadTs,
+        `⌛ Task \`${task.id.substring(0, 8)}\` was waiting for approval when the bot restarted, and pending approvals don't survive a restart. Its branch has been cleaned up; send the request again if it's still needed.`
+      );
+    } catch (error) {
+      logger.error('Failed to notify about expired task', { error, taskId: task.id });
+    }
+  }
 
-    const prBody = await this.github.generatePRDescription(prContext, task.description);
-    const prNumber = await this.github.createPullRequest(
-      task.context.branchName,
-      'main',
-      `${task.type}: ${task.description}`,
-      prBody
+  private async handleStageChanged(workflow: ApprovalWorkflow) {
+    const task = this.pendingApprovals.get(workflow.taskId);
+    if (!task) return;
+
+    await this.refreshApprovalCard(task);
+
+    // Editing the card doesn't notify anyone, so ping the next approvers
+    const stage = this.approvalEngine.getCurrentStage(task.id);
+    const approvers = this.approvalEngine.getNextApprovers(task.id);
+    await this.slack.sendThreadReply(
+      task.context.channel,
+      task.context.threadTs,
+      `🗳️ Task \`${task.id.substring(0, 8)}\` now needs ${stage?.role} approval: ${approvers.map((u) => `<@${u.userId}>`).join(', ') || '_no approvers configured_'}`
     );
+  }
+
+  private async handleWorkflowApproved(workflow: ApprovalWorkflow) {
+    const task = this.pendingApprovals.get(workflow.taskId);
+    if (!task) return;
+
+    const { channel, threadTs } = task.context;
+    // Forget the approval before awaiting Slack so a second click can't act on it again
+    const cardUpdate = this.refreshApprovalCard(task, { decision: 'approved' });
+    this.forgetApproval(task.id);
+    await cardUpdate;
+
+    try {
+      const changedFiles: string[] = task.context.changedFiles || [];
+      const fileChanges: FileChange[] = changedFiles.map((file) => ({
+        path: file,
+        type: 'modified', // Simplified
+      }));
+
+      const prContext: PRContext = {
+        changes: fileChanges,
+        impactAnalysis: task.context.analysis,
+      };
+
+      // Create PR
+      const prBody = await this.github.generatePRDescription(prContext, task.description);
+      const prNumber = await this.github.createPullRequest(
+        task.context.branchName,
+        'main',
+        `${task.type}: ${task.description}`,
+        prBody
+      );
+      task.context.prNumber = prNumber;
+
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        `🎉 Task \`${task.id.substring(0, 8)}\` approved! Pull request opened: ${this.github.getPullRequestUrl(prNumber)}`
+      );
+
+      logger.info('PR created', { taskId: task.id, prNumber });
+    } catch (error) {
+      logger.error('Failed to create PR for approved task', { error, taskId: task.id });
+      await this.slack.sendThreadReply(
+        channel,
+        threadTs,
+        `❌ Task \`${task.id.substring(0, 8)}\` was approved but the pull request could not be created: ${error instanceof Error ? error.message : 'Unknown error'}\n\nThe changes are still on branch \`${task.context.branchName}\`.`
+      );
+    }
 
     // Close preview
     await this.previewManager.closePreview(task.id);
+    await this.releaseWorkspace(task);
+
+    this.taskQueue.settleTask(task, 'completed');
+  }
+
+  private async handleWorkflowRejected(workflow: ApprovalWorkflow, user: User, reason: string) {
+    const task = this.pendingApprovals.get(workflow.taskId);
+    if (!task) return;
+
+    const cardUpdate = this.refreshApprovalCard(task, {
+      decision: 'rejected',
+      userId: user.userId,
+      reason,
+    });
+    this.forgetApproval(task.id);
+    await cardUpdate;
+
+    await this.slack.sendThreadReply(
+      task.context.channel,
+      task.context.threadTs,
+      `🚫 Task \`${task.id.substring(0, 8)}\` was rejected by <@${user.userId}>: ${reason}`
+    );
+
+    // Cleanup; the rejected work isn't needed, so drop the pushed branch too
+    await this.previewManager.closePreview(task.id);
+    if (task.context.branchName) {
+      await this.monorepo.deleteRemoteBranch(task.context.branchName);
+    }
+    await this.releaseWorkspace(task);
+
+    this.taskQueue.settleTask(task, 'rejected');
+
+    logger.info('Workflow rejected', { taskId: task.id, reason });
+  }
+
+  private async handleChangesRequested(workflow: ApprovalWorkflow, user: User, feedback: string) {
+    const task = this.pendingApprovals.get(workflow.taskId);
+    if (!task) return;
+
+    const cardUpdate = this.refreshApprovalCard(task, {
+      decision: 'changes_requested',
+      userId: user.userId,
+      reason: feedback,
+    });
+    this.forgetApproval(task.id);
+    await cardUpdate;
+
+    // The follow-up still needs the uploaded files, so they move to it rather than being
+    // deleted with this task's workspace; its own cleanup removes them
+    const attachments: TaskAttachment[] = task.context.attachments || [];
+    task.context.attachments = [];
+
+    await this.previewManager.closePreview(task.id);
+    if (task.context.branchName) {
+      await this.monorepo.deleteRemoteBranch(task.context.branchName);
+    }
+    await this.releaseWorkspace(task);
+
+    // Redo the work from a fresh branch with the reviewer's feedback folded in
+    const followUp: Task = {
+      id: uuidv4(),
+      type: task.type,
+      priority: task.priority,
+      requesterId: task.requesterId,
+      websiteTarget: task.websiteTarget,
+      dependencies: [],
+      resources: [...task.resources],
+      status: 'queued',
+      estimatedTime: task.estimatedTime,
+      createdAt: new Date(),
+      description: `${task.description}\n\nRequested changes: ${feedback}`,
+      context: {
+        originalMessage: task.context.originalMessage,
+        channel: task.context.channel,
+        threadTs: task.context.threadTs,
+        previousTaskId: task.id,
+        attachments,
+      },
+    };
+
+    this.taskQueue.addTask(followUp);
+
+    // Anything queued after the original now waits for the reworked version instead
+    this.taskQueue.transferDependents(task.id, followUp.id);
+    this.taskQueue.settleTask(task, 'rejected');
+
+    await this.slack.sendThreadReply(
+      task.context.channel,
+      task.context.threadTs,
+      `✏️ <@${user.userId}> requested changes on task \`${task.id.substring(0, 8)}\`: ${feedback}\n\nQueued follow-up task \`${followUp.id.substring(0, 8)}\` with this feedback.`
+    );
+
+    logger.info('Changes requested', { taskId: task.id, followUpId: followUp.id });
+  }
+
+  private async handleStageReminder(workflow: ApprovalWorkflow) {
+    const task = this.pendingApprovals.get(workflow.taskId);
+    const stage = this.approvalEngine.getCurrentStage(workflow.taskId);
+    if (!task || !stage?.startedAt) return;
+
+    const approvers = this.approvalEngine.getNextApprovers(task.id);
+    const minutesLeft = Math.max(
+      0,
+      Math.round((stage.startedAt.getTime() + stage.timeout - Date.now()) / 60000)
+    );
 
-    logger.info('PR created', { taskId: task.id, prNumber });
+    await this.slack.sendThreadReply(
+      task.context.channel,
+      task.context.threadTs,
+      `⏰ Reminder: task \`${task.id.substring(0, 8)}\` is still waiting on ${stage.role} approval from ${approvers.map((u) => `<@${u.userId}>`).join(', ') || '_no approvers configured_'}. It escalates in ~${minutesLeft} min.`
+    );
   }
 
-  private async handleWorkflowRejected(workflow: any, user: User, reason: string) {
-    // Cleanup and notify
-    const task = Array.from(this.taskQueue['processing'].values()).find(
-      (t) => t.id === workflow.taskId
+  private async handleStageEscalated(
+    workflow: ApprovalWorkflow,
+    from: ApprovalStage,
+    to: ApprovalStage
+  ) {
+    const task = this.pendingApprovals.get(workflow.taskId);
+    if (!task) return;
+
+    await this.refreshApprovalCard(task);
+
+    const approvers = this.approvalEngine.getNextApprovers(task.id);
+    await this.slack.sendThreadReply(
+      task.context.channel,
+      task.context.threadTs,
+      `⏫ The ${from.role} approval for task \`${task.id.substring(0, 8)}\` timed out and was escalated to ${to.role}: ${approvers.map((u) => `<@${u.userId}>`).join(', ') || '_no approvers configured_'}`
     );
+  }
 
+  private async handleWorkflowExpired(workflow: ApprovalWorkflow) {
+    if (this.pendingRollbacks.has(workflow.taskId)) {
+      await this.handleRollbackExpired(workflow);
+      return;
+    }
+
+    const task = this.pendingApprovals.get(workflow.taskId);
     if (!task) return;
 
+    const cardUpdate = this.refreshApprovalCard(task, { decision: 'expired' });
+    this.forgetApproval(task.id);
+    await cardUpdate;
+
+    await this.slack.sendThreadReply(
+      task.context.channel,
+      task.context.threadTs,
+      `⌛ Task \`${task.id.substring(0, 8)}\` expired without approval. Its branch and preview have been cleaned up; send the request again if it's still needed.`
+    );
+
+    // Nobody signed off, so nothing on the branch is worth keeping
     await this.previewManager.closePreview(task.id);
-    await this.monorepo.cleanup(task.context.branchName);
+    if (task.context.branchName) {
+      await this.monorepo.deleteRemoteBranch(task.context.branchName);
+    }
+    await this.releaseWorkspace(task);
 
-    logger.info('Workflow rejected', { taskId: task.id, reason });
+    this.taskQueue.settleTask(task, 'expired');
+
+    logger.info('Workflow expired', { taskId: task.id });
+  }
+
+  private async handleRollbackExpired(workflow: ApprovalWorkflow) {
+    const { plan, prNumber, channel, threadTs } = this.pendingRollbacks.get(workflow.taskId)!;
+    this.pendingRollbacks.delete(workflow.taskId);
+    this.approvalEngine.cleanup(workflow.taskId);
+
+    // The worktree is gone once the branch is pushed; only the PR and branch remain
+    try {
+      await this.github.closePullRequest(prNumber);
+    } catch (error) {
+      logger.error('Failed to close expired rollback PR', { error, prNumber });
+    }
+    await this.monorepo.deleteRemoteBranch(plan.rollbackBranch);
+
+    await this.slack.sendThreadReply(
+      channel,
+      threadTs,
+      `⌛ Rollback of *${plan.websiteName}* on *${plan.environment}* expired without superadmin confirmation. PR ${this.github.getPullRequestUrl(prNumber)} was closed; run \`rollback\` again if it's still needed.`
+    );
+
+    logger.info('Rollback expired', { rollbackId: plan.id, prNumber });
   }
 
   async stop() {
+    if (this.approvalTimer) {
+      clearInterval(this.approvalTimer);
+    }
+    if (this.schedulerTimer) {
+      clearInterval(this.schedulerTimer);
+    }
     await this.previewManager.closeAll();
     logger.info('Orchestrator stopped');
   }
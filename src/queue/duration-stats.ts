@@ -0,0 +1,78 @@
+import { TaskType } from '../types';
+import logger from '../utils/logger';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+const SAMPLE_LIMIT = 50; // per key, newest kept
+// Fewer samples than this for a website and the estimate falls back to the task type as a whole
+const MIN_SAMPLES = 3;
+
+export class DurationStats {
+  private filePath?: string;
+  private samples: Map<string, number[]> = new Map(); // "type" or "type:website" -> durations in ms, newest first
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<void> {
+    if (!this.filePath) return;
+
+    try {
+      const data = await fs.readFile(this.filePath, 'utf-8');
+      this.samples = new Map(Object.entries(JSON.parse(data) as Record<string, number[]>));
+      logger.info('Task duration history loaded', { keys: this.samples.size });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('Failed to load task duration history', { error, filePath: this.filePath });
+      }
+    }
+  }
+
+  record(type: TaskType, websiteTarget: string | undefined, durationMs: number): void {
+    const keys = websiteTarget ? [type, `${type}:${websiteTarget}`] : [type];
+    for (const key of keys) {
+      this.samples.set(key, [durationMs, ...(this.samples.get(key) || [])].slice(0, SAMPLE_LIMIT));
+    }
+    this.save();
+  }
+
+  // Nearest-rank percentile of past durations, or undefined with no usable history
+  estimate(
+    type: TaskType,
+    websiteTarget: string | undefined,
+    percentile: number
+  ): number | undefined {
+    const samples = this.getSamples(type, websiteTarget);
+    if (samples.length === 0) return undefined;
+
+    const sorted = [...samples].sort((a, b) => a - b);
+    const rank = Math.ceil((percentile / 100) * sorted.length);
+    return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+  }
+
+  getSampleCount(type: TaskType, websiteTarget?: string): number {
+    return this.getSamples(type, websiteTarget).length;
+  }
+
+  private getSamples(type: TaskType, websiteTarget?: string): number[] {
+    const forWebsite = websiteTarget ? this.samples.get(`${type}:${websiteTarget}`) : undefined;
+    if (forWebsite && forWebsite.length >= MIN_SAMPLES) return forWebsite;
+    return this.samples.get(type) || [];
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+    const filePath = this.filePath;
+
+    this.writeChain = this.writeChain.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(Object.fromEntries(this.samples)), 'utf-8');
+      } catch (error) {
+        logger.error('Failed to save task duration history', { error, filePath });
+      }
+    });
+  }
+}
@@ -0,0 +1,56 @@
+import { ResourceLock } from '../types';
+
+function segments(resourcePath: string): string[] {
+  return resourcePath.split(/[\\/]+/).filter(Boolean);
+}
+
+// A lock covers its path and everything below it, so website, directory and file locks nest
+export function locksOverlap(a: ResourceLock, b: ResourceLock): boolean {
+  const aSegments = segments(a.path);
+  const bSegments = segments(b.path);
+  const shared = Math.min(aSegments.length, bSegments.length);
+
+  for (let i = 0; i < shared; i++) {
+    if (aSegments[i] !== bSegments[i]) return false;
+  }
+  return true;
+}
+
+// Readers share; a writer excludes everyone else on the same subtree
+export function locksConflict(a: ResourceLock, b: ResourceLock): boolean {
+  return (a.mode === 'write' || b.mode === 'write') && locksOverlap(a, b);
+}
+
+export function formatLock(lock: ResourceLock): string {
+  return `${lock.path} (${lock.mode})`;
+}
+
+export class ResourceLockTable {
+  private held: Map<string, ResourceLock[]> = new Map(); // taskId -> locks it holds
+
+  acquire(taskId: string, locks: ResourceLock[]): void {
+    this.held.set(taskId, locks);
+  }
+
+  release(taskId: string): void {
+    this.held.delete(taskId);
+  }
+
+  // Tasks holding a lock that conflicts with any of `locks`
+  findConflicts(taskId: string, locks: ResourceLock[]): string[] {
+    const conflicts: string[] = [];
+
+    for (const [holderId, heldLocks] of this.held.entries()) {
+      if (holderId === taskId) continue;
+      if (locks.some((lock) => heldLocks.some((held) => locksConflict(lock, held)))) {
+        conflicts.push(holderId);
+      }
+    }
+
+    return conflicts;
+  }
+
+  getHeld(taskId: string): ResourceLock[] {
+    return this.held.get(taskId) || [];
+  }
+}
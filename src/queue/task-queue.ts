@@ -1,31 +1,159 @@
-import { Task, TaskPriority, TaskStatus } from '../types';
+import { ResourceLock, Task, TaskPriority, TaskStatus } from '../types';
 import logger from '../utils/logger';
 import { EventEmitter } from 'events';
+import { TaskStore } from './task-store';
+import { DependencyNode, TaskRegistry } from './task-registry';
+import { DurationStats } from './duration-stats';
+import { ResourceLockTable, formatLock, locksConflict } from './resource-locks';
+
+const RECENT_TASK_LIMIT = 10;
+const WAIT_SAMPLE_LIMIT = 50;
+
+const PRIORITY_WEIGHTS: Record<TaskPriority, number> = {
+  urgent: 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+export interface SchedulerOptions {
+  // Every interval a task spends waiting raises it one priority level, up to urgent
+  agingIntervalMs: number;
+  // Most tasks one requester may have running while someone else's task is waiting
+  maxPerRequester: number;
+  // Slots beyond maxConcurrent that only expedited tasks may use
+  urgentExtraSlots: number;
+}
+
+// The typical run and a pessimistic one, from past durations of the same kind of task
+const EXPECTED_PERCENTILE = 50;
+const UPPER_PERCENTILE = 90;
+
+export interface TaskEstimate {
+  startsInMs: number;
+  finishesInMs: number;
+  finishesInUpperMs: number;
+  samples: number; // past runs behind the estimate; 0 means the task's default estimate was used
+}
+
+interface ScheduledRun {
+  start: number; // ms from now
+  finish: number;
+}
+
+const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  agingIntervalMs: 10 * 60 * 1000,
+  maxPerRequester: 2,
+  urgentExtraSlots: 1,
+};
 
 export class TaskQueue extends EventEmitter {
   private queue: Task[] = [];
   private processing: Map<string, Task> = new Map();
   private maxConcurrent: number;
-  private resourceLocks: Map<string, string> = new Map(); // resource -> taskId
-
-  constructor(maxConcurrent: number = 3) {
+  private resourceLocks = new ResourceLockTable();
+  private store?: TaskStore;
+  private registry: TaskRegistry;
+  private paused = false;
+  private recent: Task[] = []; // most recently finished, newest first
+  private scheduler: SchedulerOptions;
+  private waitTimes: number[] = []; // queued -> started, for the most recently started tasks
+  private counters = { started: 0, completed: 0, failed: 0, cancelled: 0, fairnessDeferrals: 0 };
+  private lastTickAt?: Date;
+  private durations: DurationStats;
+
+  constructor(
+    maxConcurrent: number = 3,
+    store?: TaskStore,
+    registry: TaskRegistry = new TaskRegistry(),
+    scheduler: SchedulerOptions = DEFAULT_SCHEDULER_OPTIONS,
+    durations: DurationStats = new DurationStats()
+  ) {
     super();
     this.maxConcurrent = maxConcurrent;
+    this.store = store;
+    this.registry = registry;
+    this.scheduler = scheduler;
+    this.durations = durations;
+  }
+
+  async restore(): Promise<Task[]> {
+    await this.durations.load();
+    if (!this.store) return [];
+
+    const tasks = await this.store.load();
+    const interrupted: Task[] = [];
+    const unapproved: Task[] = [];
+
+    for (const task of tasks) {
+      this.registry.add(task);
+
+      if (task.status === 'queued') {
+        this.queue.push(task);
+      } else if (task.status === 'processing') {
+        // The process died mid-task; the working tree state is unknown so don't retry
+        task.status = 'interrupted';
+        task.completedAt = new Date();
+        this.persist(task);
+        interrupted.push(task);
+      } else if (task.status === 'waiting_approval') {
+        // Approval workflows only live in memory, so nobody can sign these off any more
+        task.status = 'expired';
+        task.completedAt = new Date();
+        this.persist(task);
+        unapproved.push(task);
+      }
+    }
+
+    this.sortQueue();
+
+    logger.info('Task queue restored', {
+      queued: this.queue.length,
+      interrupted: interrupted.length,
+      approvalLost: unapproved.length,
+    });
+
+    for (const task of interrupted) {
+      this.emit('task_interrupted', task);
+    }
+    for (const task of unapproved) {
+      this.emit('task_approval_lost', task);
+    }
+
+    this.dropBlockedTasks();
+
+    for (let i = 0; i < this.maxSlots(); i++) {
+      this.processNext();
+    }
+
+    return interrupted;
+  }
+
+  persist(task: Task): void {
+    if (!this.store) return;
+
+    this.store.save(task).catch((error) => {
+      logger.error('Failed to persist task', { error, taskId: task.id });
+    });
   }
 
   addTask(task: Task): void {
-    // Check for resource conflicts
+    this.checkDependencies(task.id, task.dependencies);
+
+    // Resource conflicts only delay the task until the lock is released; they aren't
+    // prerequisites, so a conflicting task failing mustn't fail this one
     const conflicts = this.checkResourceConflicts(task);
     if (conflicts.length > 0) {
       logger.warn('Task has resource conflicts', {
         taskId: task.id,
         conflicts,
       });
-      task.dependencies.push(...conflicts);
     }
 
+    this.registry.add(task);
     this.queue.push(task);
     this.sortQueue();
+    this.persist(task);
     logger.info('Task added to queue', {
       taskId: task.id,
       priority: task.priority,
@@ -33,20 +161,27 @@ export class TaskQueue extends EventEmitter {
     });
 
     this.emit('task_added', task);
+    this.dropBlockedTasks();
     this.processNext();
   }
 
-  private sortQueue(): void {
-    const priorityWeight = {
-      urgent: 4,
-      high: 3,
-      medium: 2,
-      low: 1,
-    };
+  private checkDependencies(taskId: string, dependencies: string[]): void {
+    for (const depId of dependencies) {
+      if (!this.registry.get(depId)) {
+        throw new Error(`Unknown prerequisite task ${depId.substring(0, 8)}`);
+      }
+    }
 
+    const cycle = this.registry.findCycle(taskId, dependencies);
+    if (cycle) {
+      throw new Error(`Dependency cycle: ${cycle.map((id) => id.substring(0, 8)).join(' → ')}`);
+    }
+  }
+
+  private sortQueue(now: Date = new Date()): void {
     this.queue.sort((a, b) => {
-      // First sort by priority
-      const priorityDiff = priorityWeight[b.priority] - priorityWeight[a.priority];
+      // First sort by priority, boosted by how long the task has waited
+      const priorityDiff = this.effectivePriority(b, now) - this.effectivePriority(a, now);
       if (priorityDiff !== 0) return priorityDiff;
 
       // Then by creation time (older first)
@@ -54,25 +189,27 @@ export class TaskQueue extends EventEmitter {
     });
   }
 
-  private checkResourceConflicts(task: Task): string[] {
-    const conflicts: string[] = [];
+  private effectivePriority(task: Task, now: Date): number {
+    const waited = now.getTime() - task.createdAt.getTime();
+    const boost = Math.floor(waited / this.scheduler.agingIntervalMs);
+    return Math.min(PRIORITY_WEIGHTS[task.priority] + boost, PRIORITY_WEIGHTS.urgent);
+  }
 
-    for (const resource of task.resources) {
-      const lockingTaskId = this.resourceLocks.get(resource);
-      if (lockingTaskId && lockingTaskId !== task.id) {
-        conflicts.push(lockingTaskId);
-      }
-    }
+  private maxSlots(): number {
+    return this.maxConcurrent + this.scheduler.urgentExtraSlots;
+  }
 
-    return [...new Set(conflicts)]; // Remove duplicates
+  private runningCount(requesterId: string): number {
+    return Array.from(this.processing.values()).filter((t) => t.requesterId === requesterId).length;
+  }
+
+  private checkResourceConflicts(task: Task): string[] {
+    return this.resourceLocks.findConflicts(task.id, task.resources);
   }
 
   private canProcessTask(task: Task): boolean {
-    // Check if all dependencies are completed
-    const incompleteDeps = task.dependencies.filter((depId) => {
-      const dep = this.processing.get(depId) || this.queue.find((t) => t.id === depId);
-      return dep && dep.status !== 'completed';
-    });
+    // Check if all dependencies are completed, including ones that already left the queue
+    const incompleteDeps = this.registry.getUnmetDependencies(task);
 
     if (incompleteDeps.length > 0) {
       logger.debug('Task has incomplete dependencies', {
@@ -83,45 +220,64 @@ export class TaskQueue extends EventEmitter {
     }
 
     // Check if resources are available
-    for (const resource of task.resources) {
-      const lockingTaskId = this.resourceLocks.get(resource);
-      if (lockingTaskId && lockingTaskId !== task.id) {
-        logger.debug('Task resource is locked', {
-          taskId: task.id,
-          resource,
-          lockedBy: lockingTaskId,
-        });
-        return false;
-      }
+    const lockedBy = this.checkResourceConflicts(task);
+    if (lockedBy.length > 0) {
+      logger.debug('Task resource is locked', {
+        taskId: task.id,
+        resources: task.resources.map(formatLock),
+        lockedBy,
+      });
+      return false;
     }
 
     return true;
   }
 
   private lockResources(task: Task): void {
-    for (const resource of task.resources) {
-      this.resourceLocks.set(resource, task.id);
-    }
+    this.resourceLocks.acquire(task.id, task.resources);
   }
 
   private unlockResources(task: Task): void {
-    for (const resource of task.resources) {
-      if (this.resourceLocks.get(resource) === task.id) {
-        this.resourceLocks.delete(resource);
-      }
-    }
+    this.resourceLocks.release(task.id);
   }
 
   async processNext(): Promise<void> {
-    if (this.processing.size >= this.maxConcurrent) {
+    if (this.paused) {
+      logger.debug('Queue is paused', { queueLength: this.queue.length });
+      return;
+    }
+
+    if (this.processing.size >= this.maxSlots()) {
       logger.debug('Max concurrent tasks reached', {
         processing: this.processing.size,
-        max: this.maxConcurrent,
+        max: this.maxSlots(),
       });
       return;
     }
 
-    const nextTask = this.queue.find((task) => this.canProcessTask(task));
+    // Once the regular slots are full, only expedited tasks may take the extra ones
+    const atCapacity = this.processing.size >= this.maxConcurrent;
+
+    // Priorities drift as tasks age, so re-sort before every pick
+    this.sortQueue();
+    const runnable = this.queue.filter(
+      (task) => this.canProcessTask(task) && (!atCapacity || task.expedite)
+    );
+
+    // Skip requesters already at their quota, unless nobody else has anything that can run
+    const nextTask =
+      runnable.find(
+        (task) => this.runningCount(task.requesterId) < this.scheduler.maxPerRequester
+      ) || runnable[0];
+
+    if (nextTask && nextTask !== runnable[0]) {
+      this.counters.fairnessDeferrals++;
+      logger.debug('Deferred task from requester at quota', {
+        deferredTaskId: runnable[0].id,
+        requesterId: runnable[0].requesterId,
+        chosenTaskId: nextTask.id,
+      });
+    }
 
     if (!nextTask) {
       logger.debug('No processable tasks in queue', {
@@ -140,10 +296,18 @@ export class TaskQueue extends EventEmitter {
     nextTask.status = 'processing';
     nextTask.startedAt = new Date();
     this.processing.set(nextTask.id, nextTask);
+    this.persist(nextTask);
+
+    this.counters.started++;
+    this.waitTimes = [
+      nextTask.startedAt.getTime() - nextTask.createdAt.getTime(),
+      ...this.waitTimes,
+    ].slice(0, WAIT_SAMPLE_LIMIT);
 
     logger.info('Task processing started', {
       taskId: nextTask.id,
       type: nextTask.type,
+      expedited: atCapacity,
     });
 
     this.emit('task_started', nextTask);
@@ -160,11 +324,21 @@ export class TaskQueue extends EventEmitter {
     task.status = status;
     task.completedAt = new Date();
 
+    if (task.startedAt) {
+      this.durations.record(
+        task.type,
+        task.websiteTarget,
+        task.completedAt.getTime() - task.startedAt.getTime()
+      );
+    }
+
     // Unlock resources
     this.unlockResources(task);
 
     // Remove from processing
     this.processing.delete(taskId);
+    this.persist(task);
+    this.remember(task);
 
     logger.info('Task completed', {
       taskId,
@@ -172,6 +346,7 @@ export class TaskQueue extends EventEmitter {
       duration: task.completedAt.getTime() - (task.startedAt?.getTime() || 0),
     });
 
+    this.counters.completed++;
     this.emit('task_completed', task);
 
     // Try to process next tasks
@@ -194,6 +369,8 @@ export class TaskQueue extends EventEmitter {
 
     // Remove from processing
     this.processing.delete(taskId);
+    this.persist(task);
+    this.remember(task);
 
     logger.error('Task failed', {
       taskId,
@@ -201,21 +378,202 @@ export class TaskQueue extends EventEmitter {
       duration: task.completedAt.getTime() - (task.startedAt?.getTime() || 0),
     });
 
+    this.counters.failed++;
     this.emit('task_failed', task, error);
 
     // Try to process next tasks
+    this.dropBlockedTasks();
+    this.processNext();
+  }
+
+  cancelTask(taskId: string): Task | undefined {
+    const queued = this.queue.find((t) => t.id === taskId);
+    const task = queued || this.processing.get(taskId);
+
+    if (!task) {
+      logger.warn('Attempted to cancel unknown task', { taskId });
+      return undefined;
+    }
+
+    const wasRunning = !queued;
+    if (wasRunning) {
+      this.unlockResources(task);
+      this.processing.delete(taskId);
+    } else {
+      this.queue = this.queue.filter((t) => t.id !== taskId);
+    }
+
+    task.status = 'cancelled';
+    task.completedAt = new Date();
+    this.persist(task);
+    this.remember(task);
+
+    logger.info('Task cancelled', { taskId, wasRunning });
+
+    this.counters.cancelled++;
+    this.emit('task_cancelled', task, wasRunning);
+
+    this.dropBlockedTasks();
+
+    // A running task frees its slot and locks straight away
     this.processNext();
+    return task;
+  }
+
+  // Changes the priority of a task that hasn't started yet, e.g. after a bump from Slack
+  reprioritize(taskId: string, priority: TaskPriority, expedite: boolean): Task | undefined {
+    const task = this.queue.find((t) => t.id === taskId);
+    if (!task) return undefined;
+
+    const previous = task.priority;
+    task.priority = priority;
+    task.expedite = task.expedite || expedite;
+    this.persist(task);
+
+    logger.info('Task reprioritized', {
+      taskId,
+      from: previous,
+      to: priority,
+      expedite: task.expedite,
+    });
+
+    this.sortQueue();
+    this.processNext();
+    return task;
+  }
+
+  // Records the final outcome of a task that already left the queue, e.g. one waiting on approval
+  settleTask(task: Task, status: TaskStatus): void {
+    task.status = status;
+    task.completedAt = new Date();
+    this.persist(task);
+    this.remember(task);
+
+    logger.info('Task settled', { taskId: task.id, status });
+
+    this.dropBlockedTasks();
+    this.processNext();
+  }
+
+  // Points everything waiting on one task at its replacement instead, e.g. a follow-up after requested changes
+  transferDependents(fromTaskId: string, toTaskId: string): void {
+    for (const dependent of this.registry.getDependents(fromTaskId)) {
+      const dependencies = dependent.dependencies.map((id) => (id === fromTaskId ? toTaskId : id));
+      this.checkDependencies(dependent.id, dependencies);
+
+      dependent.dependencies = [...new Set(dependencies)];
+      this.persist(dependent);
+      logger.info('Task dependency transferred', {
+        taskId: dependent.id,
+        from: fromTaskId,
+        to: toTaskId,
+      });
+    }
+  }
+
+  // A task whose prerequisite didn't succeed can never run, and neither can anything waiting on it
+  private dropBlockedTasks(): void {
+    let blocked: Task[];
+
+    do {
+      blocked = this.queue.filter((t) => this.registry.getFailedDependency(t));
+
+      for (const task of blocked) {
+        const prerequisite = this.registry.getFailedDependency(task)!;
+        this.queue = this.queue.filter((t) => t.id !== task.id);
+
+        task.status = prerequisite.status === 'cancelled' ? 'cancelled' : 'failed';
+        task.completedAt = new Date();
+        this.persist(task);
+        this.remember(task);
+
+        logger.warn('Task dropped after its prerequisite did not succeed', {
+          taskId: task.id,
+          prerequisite: prerequisite.id,
+          prerequisiteStatus: prerequisite.status,
+        });
+
+        this.emit('task_dependency_failed', task, prerequisite);
+      }
+    } while (blocked.length > 0);
+  }
+
+  // Called on a timer so tasks get re-evaluated even when nothing else happens:
+  // waiting tasks age into higher priority and lock or quota changes are picked up
+  tick(now: Date = new Date()): void {
+    this.lastTickAt = now;
+    this.dropBlockedTasks();
+    this.sortQueue(now);
+
+    for (let i = this.processing.size; i < this.maxSlots(); i++) {
+      this.processNext();
+    }
+  }
+
+  pause(): void {
+    this.paused = true;
+    logger.info('Task queue paused', {
+      queued: this.queue.length,
+      processing: this.processing.size,
+    });
+  }
+
+  resume(): void {
+    this.paused = false;
+    logger.info('Task queue resumed', { queued: this.queue.length });
+
+    for (let i = this.processing.size; i < this.maxSlots(); i++) {
+      this.processNext();
+    }
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Matches on id prefix, since users only ever see the short id
+  findTask(taskRef: string): Task | undefined {
+    return [...this.processing.values(), ...this.queue].find((t) => t.id.startsWith(taskRef));
+  }
+
+  // Also finds finished tasks, so new tasks can depend on them
+  findKnownTask(taskRef: string): Task | undefined {
+    return this.registry.find(taskRef);
+  }
+
+  getDependencyGraph(): DependencyNode[] {
+    return this.registry.getDependencyGraph();
+  }
+
+  getActiveTasks(): Task[] {
+    return [...this.processing.values(), ...this.queue];
+  }
+
+  private remember(task: Task): void {
+    this.recent = [task, ...this.recent.filter((t) => t.id !== task.id)].slice(
+      0,
+      RECENT_TASK_LIMIT
+    );
   }
 
   getQueueStatus() {
+    const now = new Date();
+    this.sortQueue(now);
+    const expected = this.simulateRuns(EXPECTED_PERCENTILE, now);
+    const upper = this.simulateRuns(UPPER_PERCENTILE, now);
+
     return {
+      paused: this.paused,
       queued: this.queue.length,
       processing: this.processing.size,
+      blocked: this.queue.filter((t) => this.registry.getUnmetDependencies(t).length > 0).length,
       queue: this.queue.map((t) => ({
         id: t.id,
         type: t.type,
         priority: t.priority,
         status: t.status,
+        dependencies: t.dependencies,
+        estimate: this.toEstimate(t, expected, upper),
       })),
       processingTasks: Array.from(this.processing.values()).map((t) => ({
         id: t.id,
@@ -223,7 +581,41 @@ export class TaskQueue extends EventEmitter {
         priority: t.priority,
         status: t.status,
         startedAt: t.startedAt,
+        locks: this.resourceLocks.getHeld(t.id),
+        estimate: this.toEstimate(t, expected, upper),
+      })),
+      recentTasks: this.recent.map((t) => ({
+        id: t.id,
+        type: t.type,
+        status: t.status,
+        completedAt: t.completedAt,
       })),
+      metrics: this.getMetrics(),
+    };
+  }
+
+  private getMetrics() {
+    const now = new Date();
+    const waiting = this.queue.map((t) => now.getTime() - t.createdAt.getTime());
+    const byRequester: Record<string, { queued: number; processing: number }> = {};
+
+    for (const task of [...this.queue, ...this.processing.values()]) {
+      const entry = (byRequester[task.requesterId] ||= { queued: 0, processing: 0 });
+      entry[task.status === 'processing' ? 'processing' : 'queued']++;
+    }
+
+    return {
+      ...this.counters,
+      longestWaitMs: waiting.length > 0 ? Math.max(...waiting) : 0,
+      averageStartWaitMs:
+        this.waitTimes.length > 0
+          ? Math.round(this.waitTimes.reduce((sum, ms) => sum + ms, 0) / this.waitTimes.length)
+          : 0,
+      agedTasks: this.queue.filter(
+        (t) => this.effectivePriority(t, now) > PRIORITY_WEIGHTS[t.priority]
+      ).length,
+      byRequester,
+      lastTickAt: this.lastTickAt,
     };
   }
 
@@ -233,11 +625,89 @@ export class TaskQueue extends EventEmitter {
   }
 
   getEstimatedWaitTime(taskId: string): number {
-    const position = this.getTaskPosition(taskId);
-    if (position === -1) return 0;
+    return this.getEstimate(taskId)?.startsInMs ?? 0;
+  }
+
+  getEstimate(taskId: string, now: Date = new Date()): TaskEstimate | undefined {
+    const task = this.processing.get(taskId) || this.queue.find((t) => t.id === taskId);
+    if (!task) return undefined;
+
+    this.sortQueue(now);
+    return this.toEstimate(
+      task,
+      this.simulateRuns(EXPECTED_PERCENTILE, now),
+      this.simulateRuns(UPPER_PERCENTILE, now)
+    );
+  }
+
+  private toEstimate(
+    task: Task,
+    expected: Map<string, ScheduledRun>,
+    upper: Map<string, ScheduledRun>
+  ): TaskEstimate | undefined {
+    const run = expected.get(task.id);
+    if (!run) return undefined;
+
+    return {
+      startsInMs: run.start,
+      finishesInMs: run.finish,
+      finishesInUpperMs: Math.max(upper.get(task.id)?.finish ?? run.finish, run.finish),
+      samples: this.durations.getSampleCount(task.type, task.websiteTarget),
+    };
+  }
+
+  private estimateDuration(task: Task, percentile: number): number {
+    return this.durations.estimate(task.type, task.websiteTarget, percentile) ?? task.estimatedTime;
+  }
+
+  // Plays the queue forward in order: each task takes the earliest free slot once its
+  // locked resources and prerequisites are released
+  private simulateRuns(percentile: number, now: Date): Map<string, ScheduledRun> {
+    const runs: Map<string, ScheduledRun> = new Map();
+    const slots: number[] = [];
+    const lockReleases: { lock: ResourceLock; at: number }[] = []; // at: ms from now
+    const releasedAt = (lock: ResourceLock) =>
+      Math.max(0, ...lockReleases.filter((r) => locksConflict(r.lock, lock)).map((r) => r.at));
+
+    for (const task of this.processing.values()) {
+      const elapsed = now.getTime() - (task.startedAt?.getTime() ?? now.getTime());
+      // A task running past its estimate is assumed to be nearly done rather than finished
+      const remaining = Math.max(this.estimateDuration(task, percentile) - elapsed, 60 * 1000);
+
+      runs.set(task.id, { start: 0, finish: remaining });
+      slots.push(remaining);
+      lockReleases.push(...task.resources.map((lock) => ({ lock, at: remaining })));
+    }
+
+    while (slots.length < this.maxConcurrent) {
+      slots.push(0);
+    }
+
+    // Queue order, except a prerequisite is always placed before the tasks waiting on it
+    const pending = [...this.queue];
+    while (pending.length > 0) {
+      const index = Math.max(
+        pending.findIndex(
+          (t) => !t.dependencies.some((depId) => pending.some((p) => p.id === depId))
+        ),
+        0
+      );
+      const [task] = pending.splice(index, 1);
+
+      slots.sort((a, b) => a - b);
+      const start = Math.max(
+        slots[0],
+        ...task.resources.map(releasedAt),
+        // Prerequisites outside the simulation are finished or waiting on a human
+        ...task.dependencies.map((depId) => runs.get(depId)?.finish ?? 0)
+      );
+      const finish = start + this.estimateDuration(task, percentile);
+
+      runs.set(task.id, { start, finish });
+      slots[0] = finish;
+      lockReleases.push(...task.resources.map((lock) => ({ lock, at: finish })));
+    }
 
-    // Simple estimation: average task time * position
-    const avgTaskTime = 15 * 60 * 1000; // 15 minutes in ms
-    return position * avgTaskTime;
+    return runs;
   }
 }
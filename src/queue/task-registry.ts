@@ -0,0 +1,117 @@
+import { Task, TaskStatus } from '../types';
+import logger from '../utils/logger';
+
+export const FINISHED_STATUSES: TaskStatus[] = [
+  'completed',
+  'failed',
+  'rejected',
+  'expired',
+  'interrupted',
+  'cancelled',
+];
+
+export interface DependencyNode {
+  task: Task;
+  dependsOn: Task[];
+}
+
+// Every task the queue has seen, including finished ones, so dependencies still
+// resolve after their prerequisite has left the queue
+export class TaskRegistry {
+  private tasks: Map<string, Task> = new Map();
+  private retentionMs: number;
+
+  constructor(retentionDays: number = 7) {
+    this.retentionMs = retentionDays * 24 * 60 * 60 * 1000;
+  }
+
+  add(task: Task): void {
+    this.tasks.set(task.id, task);
+    this.prune();
+  }
+
+  get(taskId: string): Task | undefined {
+    return this.tasks.get(taskId);
+  }
+
+  // Matches on id prefix, newest first, since users only ever see the short id
+  find(taskRef: string): Task | undefined {
+    return Array.from(this.tasks.values())
+      .filter((t) => t.id.startsWith(taskRef))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  }
+
+  isFinished(task: Task): boolean {
+    return FINISHED_STATUSES.includes(task.status);
+  }
+
+  getDependents(taskId: string): Task[] {
+    return Array.from(this.tasks.values()).filter(
+      (t) => !this.isFinished(t) && t.dependencies.includes(taskId)
+    );
+  }
+
+  getUnmetDependencies(task: Task): string[] {
+    return task.dependencies.filter((depId) => {
+      const dep = this.tasks.get(depId);
+      // Prerequisites pruned from history finished long ago
+      return dep !== undefined && dep.status !== 'completed';
+    });
+  }
+
+  // The first prerequisite that finished without succeeding, which means this task can never run
+  getFailedDependency(task: Task): Task | undefined {
+    return task.dependencies
+      .map((depId) => this.tasks.get(depId))
+      .find((dep) => dep !== undefined && this.isFinished(dep) && dep.status !== 'completed');
+  }
+
+  // Returns the task ids forming a cycle if taskId were to depend on `dependencies`
+  findCycle(taskId: string, dependencies: string[]): string[] | undefined {
+    const visited = new Set<string>();
+
+    const visit = (currentId: string, trail: string[]): string[] | undefined => {
+      if (currentId === taskId) return [...trail, currentId];
+      if (visited.has(currentId)) return undefined;
+      visited.add(currentId);
+
+      for (const depId of this.tasks.get(currentId)?.dependencies || []) {
+        const cycle = visit(depId, [...trail, currentId]);
+        if (cycle) return cycle;
+      }
+      return undefined;
+    };
+
+    for (const depId of dependencies) {
+      const cycle = visit(depId, [taskId]);
+      if (cycle) return cycle;
+    }
+    return undefined;
+  }
+
+  // Unfinished tasks that wait on others, with their direct prerequisites
+  getDependencyGraph(): DependencyNode[] {
+    return Array.from(this.tasks.values())
+      .filter((t) => !this.isFinished(t) && t.dependencies.length > 0)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((task) => ({
+        task,
+        dependsOn: task.dependencies
+          .map((depId) => this.tasks.get(depId))
+          .filter((dep): dep is Task => dep !== undefined),
+      }));
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.retentionMs;
+
+    for (const [taskId, task] of this.tasks.entries()) {
+      const expired =
+        this.isFinished(task) && task.completedAt && task.completedAt.getTime() < cutoff;
+      if (expired && this.getDependents(taskId).length === 0) {
+        this.tasks.delete(taskId);
+        logger.debug('Pruned finished task from registry', { taskId });
+      }
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { ResourceLock, Task, TaskStatus } from '../types';
+import logger from '../utils/logger';
+import { FINISHED_STATUSES } from './task-registry';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export interface TaskTransition {
+  status: TaskStatus;
+  at: Date;
+}
+
+export interface TaskStore {
+  load(): Promise<Task[]>;
+  save(task: Task): Promise<void>;
+  getTransitions(taskId: string): TaskTransition[];
+}
+
+interface PersistedTask {
+  task: Task;
+  transitions: TaskTransition[];
+}
+
+const DATE_FIELDS = ['createdAt', 'startedAt', 'completedAt'] as const;
+
+export class JsonFileTaskStore implements TaskStore {
+  private filePath: string;
+  private retentionMs: number;
+  private records: Map<string, PersistedTask> = new Map();
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, retentionDays: number = 7) {
+    this.filePath = filePath;
+    this.retentionMs = retentionDays * 24 * 60 * 60 * 1000;
+  }
+
+  async load(): Promise<Task[]> {
+    try {
+      const data = await fs.readFile(this.filePath, 'utf-8');
+      const parsed: Record<string, PersistedTask> = JSON.parse(data);
+
+      this.records.clear();
+      for (const [taskId, record] of Object.entries(parsed)) {
+        this.records.set(taskId, {
+          task: this.reviveTask(record.task),
+          transitions: record.transitions.map((t) => ({ status: t.status, at: new Date(t.at) })),
+        });
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('Failed to load task store', { error, filePath: this.filePath });
+        throw error;
+      }
+      logger.info('No task store found, starting fresh', { filePath: this.filePath });
+    }
+
+    this.pruneFinished();
+    await this.flush();
+
+    logger.info('Task store loaded', { filePath: this.filePath, tasks: this.records.size });
+    return Array.from(this.records.values()).map((r) => r.task);
+  }
+
+  async save(task: Task): Promise<void> {
+    const record = this.records.get(task.id) || { task, transitions: [] };
+    record.task = task;
+
+    const lastTransition = record.transitions[record.transitions.length - 1];
+    if (!lastTransition || lastTransition.status !== task.status) {
+      record.transitions.push({ status: task.status, at: new Date() });
+    }
+
+    this.records.set(task.id, record);
+    await this.flush();
+  }
+
+  getTransitions(taskId: string): TaskTransition[] {
+    return this.records.get(taskId)?.transitions || [];
+  }
+
+  private pruneFinished(): void {
+    const cutoff = Date.now() - this.retentionMs;
+
+    for (const [taskId, record] of this.records.entries()) {
+      const { status, completedAt } = record.task;
+      const finished = FINISHED_STATUSES.includes(status);
+      if (finished && completedAt && completedAt.getTime() < cutoff) {
+        this.records.delete(taskId);
+      }
+    }
+  }
+
+  private reviveTask(task: Task): Task {
+    const revived = { ...task };
+    for (const field of DATE_FIELDS) {
+      if (revived[field]) {
+        revived[field] = new Date(revived[field] as unknown as string);
+      }
+    }
+
+    // Tasks saved before per-file locking held their whole website as a plain string
+    revived.resources = (revived.resources as (ResourceLock | string)[]).map((resource) =>
+      typeof resource === 'string' ? { path: resource, mode: 'write' } : resource
+    );
+    return revived;
+  }
+
+  private flush(): Promise<void> {
+    // Serialize writes so concurrent transitions never interleave on disk
+    // Nothing here may throw: a rejected chain would stop every later write
+    this.writeChain = this.writeChain.then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+
+      try {
+        const snapshot = JSON.stringify(Object.fromEntries(this.records), null, 2);
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, snapshot, 'utf-8');
+        await fs.rename(tmpPath, this.filePath);
+      } catch (error) {
+        logger.error('Failed to write task store', { error, filePath: this.filePath });
+      }
+    });
+
+    return this.writeChain;
+  }
+}
@@ -0,0 +1,52 @@
+import { Task, TaskType, WebsiteConfig } from '../types';
+import { TaskProgress } from '../bot/task-progress';
+import logger from '../utils/logger';
+
+export interface TaskHandlerContext {
+  task: Task;
+  websiteConfig: WebsiteConfig;
+  worktreePath: string;
+  websitePath: string; // the website's folder inside the worktree
+  progress: TaskProgress;
+  abortController: AbortController; // aborted when the task is cancelled from Slack
+}
+
+export interface TaskHandler {
+  type: TaskType;
+  description: string;
+  // Handlers that change files get their own branch, a commit and an approval workflow
+  producesChanges: boolean;
+  run(context: TaskHandlerContext): Promise<string>;
+}
+
+export class TaskHandlerRegistry {
+  private handlers: Map<TaskType, TaskHandler> = new Map();
+
+  register(handler: TaskHandler) {
+    if (this.handlers.has(handler.type)) {
+      logger.warn('Replacing task handler', { type: handler.type });
+    }
+
+    this.handlers.set(handler.type, handler);
+    logger.info('Task handler registered', {
+      type: handler.type,
+      producesChanges: handler.producesChanges,
+    });
+  }
+
+  get(type: TaskType): TaskHandler {
+    const handler = this.handlers.get(type);
+    if (!handler) {
+      throw new Error(`No handler registered for task type "${type}"`);
+    }
+    return handler;
+  }
+
+  has(type: TaskType): boolean {
+    return this.handlers.has(type);
+  }
+
+  getAll(): TaskHandler[] {
+    return Array.from(this.handlers.values());
+  }
+}
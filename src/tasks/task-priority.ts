@@ -0,0 +1,90 @@
+import { TaskPriority, UserRole } from '../types';
+
+const PRIORITY_ORDER: TaskPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+// Slack clients sometimes turn a typed -- into an em dash
+const PRIORITY_FLAG_PATTERN = /(?:^|\s)(?:--|—)(urgent|high|medium|low)\b/i;
+
+const PRIORITY_KEYWORDS: { priority: TaskPriority; pattern: RegExp; reason: string }[] = [
+  { priority: 'urgent', pattern: /\bhot-?fix\b/i, reason: 'hotfix' },
+  {
+    priority: 'urgent',
+    pattern: /\b(?:site|website|page)\s+(?:is\s+)?down\b/i,
+    reason: 'site down',
+  },
+  { priority: 'urgent', pattern: /\boutage\b/i, reason: 'outage' },
+  { priority: 'high', pattern: /\b(?:urgent|asap|critical)\b/i, reason: 'marked urgent' },
+  { priority: 'low', pattern: /\b(?:no rush|low priority|whenever you can)\b/i, reason: 'no rush' },
+];
+
+// Levels added to an unflagged request, so admins' work goes ahead of routine requests
+const ROLE_WEIGHTS: Record<UserRole, number> = {
+  developer: 0,
+  admin: 1,
+  superadmin: 1,
+};
+
+export interface PriorityDecision {
+  priority: TaskPriority;
+  reason: string;
+  // Urgent tasks from admins may start even when every slot is taken
+  expedite: boolean;
+  text: string; // the request with any priority flag removed
+}
+
+// Urgent is reserved for admins; a developer's urgent request is queued as high
+function capForRole(priority: TaskPriority, role: UserRole): TaskPriority {
+  return role === 'developer' && priority === 'urgent' ? 'high' : priority;
+}
+
+export function detectPriority(text: string, role: UserRole): PriorityDecision {
+  const flag = text.match(PRIORITY_FLAG_PATTERN);
+  const stripped = flag ? text.replace(flag[0], ' ').replace(/\s+/g, ' ').trim() : text;
+
+  let requested: TaskPriority = 'medium';
+  let reason = 'default';
+
+  if (flag) {
+    requested = flag[1].toLowerCase() as TaskPriority;
+    reason = `--${requested}`;
+  } else {
+    const keyword = PRIORITY_KEYWORDS.find((k) => k.pattern.test(text));
+    if (keyword) {
+      requested = keyword.priority;
+      reason = keyword.reason;
+    }
+
+    // An explicit "no rush" stays low whoever asks
+    if (requested !== 'low' && ROLE_WEIGHTS[role] > 0) {
+      const index = Math.min(
+        PRIORITY_ORDER.indexOf(requested) + ROLE_WEIGHTS[role],
+        PRIORITY_ORDER.length - 1
+      );
+      if (PRIORITY_ORDER[index] !== requested) {
+        requested = PRIORITY_ORDER[index];
+        reason = reason === 'default' ? `requested by ${role}` : `${reason}; requested by ${role}`;
+      }
+    }
+  }
+
+  const priority = capForRole(requested, role);
+  if (priority !== requested) {
+    reason = `${reason}; urgent is reserved for admins`;
+  }
+
+  return {
+    priority,
+    reason,
+    expedite: priority === 'urgent' && role !== 'developer',
+    text: stripped,
+  };
+}
+
+// One level up, within what the role allows; undefined when it can't go higher
+export function bumpPriority(priority: TaskPriority, role: UserRole): TaskPriority | undefined {
+  const next = PRIORITY_ORDER[PRIORITY_ORDER.indexOf(priority) + 1];
+  if (!next) return undefined;
+
+  const capped = capForRole(next, role);
+  return capped === priority ? undefined : capped;
+}
@@ -2,17 +2,34 @@
 
 export type TaskType = 'website_update' | 'file_analysis' | 'code_review' | 'asset_process';
 export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
-export type TaskStatus = 'queued' | 'processing' | 'waiting_approval' | 'completed' | 'failed';
+export type TaskStatus =
+  | 'queued'
+  | 'processing'
+  | 'waiting_approval'
+  | 'completed'
+  | 'failed'
+  | 'rejected'
+  | 'expired'
+  | 'interrupted'
+  | 'cancelled';
 export type UserRole = 'superadmin' | 'admin' | 'developer';
+export type LockMode = 'read' | 'write';
+
+// A lock on "<website>", "<website>/<dir>" or "<website>/<file>"; it covers everything below its path
+export interface ResourceLock {
+  path: string;
+  mode: LockMode;
+}
 
 export interface Task {
   id: string;
   type: TaskType;
   priority: TaskPriority;
+  expedite?: boolean; // urgent task from an admin; may start even when every slot is taken
   requesterId: string;
   websiteTarget?: string;
   dependencies: string[];
-  resources: string[];
+  resources: ResourceLock[];
   status: TaskStatus;
   estimatedTime: number;
   createdAt: Date;
@@ -22,6 +39,27 @@ export interface Task {
   context?: any;
 }
 
+export interface TaskAttachment {
+  fileId: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  localPath: string;
+  uploadedBy: string;
+  text?: string; // extracted content for text files
+}
+
+export type FindingSeverity = 'critical' | 'major' | 'minor' | 'info';
+
+export interface ReviewFinding {
+  severity: FindingSeverity;
+  file: string;
+  line?: number;
+  title: string;
+  detail: string;
+  suggestion?: string;
+}
+
 export interface WebsiteConfig {
   name: string;
   path: string;
@@ -40,6 +78,29 @@ export interface MonorepoConfig {
   deploymentBranches: Record<string, string>;
 }
 
+export interface DeploymentRecord {
+  id: string;
+  websiteName: string;
+  environment: string;
+  branch: string;
+  commitSha?: string;
+  triggeredBy: string;
+  status: 'succeeded' | 'failed';
+  createdAt: Date;
+  error?: string;
+  rollbackOf?: string; // id of the deployment this one restored
+}
+
+export interface RollbackPlan {
+  id: string;
+  websiteName: string;
+  environment: string;
+  branch: string;
+  rollbackBranch: string;
+  target: DeploymentRecord;
+  requestedBy: string;
+}
+
 export interface User {
   userId: string;
   name: string;
@@ -52,6 +113,9 @@ export interface ApprovalStage {
   role: UserRole;
   required: boolean;
   timeout: number;
+  startedAt?: Date;
+  remindedAt?: Date;
+  timedOutAt?: Date;
   approvedBy?: string;
   approvedAt?: Date;
 }
@@ -62,6 +126,33 @@ export interface ApprovalWorkflow {
   currentStage: number;
   requiredApprovals: number;
   status: 'pending' | 'approved' | 'rejected' | 'expired';
+  policyName?: string;
+}
+
+export interface ApprovalStagePolicy {
+  role: UserRole;
+  required: boolean;
+  timeoutMinutes: number;
+}
+
+// A rule matches when every criterion it specifies holds; the first match wins
+export interface ApprovalPolicyRule {
+  name: string;
+  websites?: string[];
+  taskTypes?: TaskType[];
+  minFilesChanged?: number;
+  protectedPaths?: string[]; // globs relative to the website folder
+  stages: ApprovalStagePolicy[];
+}
+
+export interface ApprovalPolicy {
+  rules: ApprovalPolicyRule[];
+}
+
+export interface ApprovalContext {
+  websiteName?: string;
+  taskType: TaskType;
+  changedFiles: string[]; // relative to the website folder
 }
 
 export interface FileChange {
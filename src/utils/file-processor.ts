@@ -1,7 +1,165 @@
 import logger from './logger';
+import sharp from 'sharp';
+import pdfParse from 'pdf-parse';
+import mammoth from 'mammoth';
+import TurndownService from 'turndown';
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
+export type ImageFormat = 'avif' | 'webp' | 'jpeg' | 'png';
+
+export interface ImageVariant {
+  width: number;
+  format: ImageFormat;
+  buffer: Buffer;
+}
+
+export interface OptimizedImage {
+  originalBytes: number;
+  fallbackFormat: ImageFormat;
+  variants: ImageVariant[];
+}
+
+export type FileRejectionCode =
+  'empty' | 'unknown_type' | 'type_mismatch' | 'type_not_allowed' | 'too_large' | 'unsafe_svg';
+
+export interface FileRejection {
+  code: FileRejectionCode;
+  message: string;
+  detectedType?: string;
+}
+
+export interface FileValidationResult {
+  valid: boolean;
+  mimeType?: string;
+  buffer: Buffer; // sanitised copy for SVGs, otherwise the input
+  rejection?: FileRejection;
+  warnings: string[];
+}
+
+const RESPONSIVE_WIDTHS = [480, 960, 1600];
+
+const OPTIMIZABLE_IMAGE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/avif',
+];
+const MAX_IMAGE_WIDTH = 2400;
+
+const PDF_MIME_TYPE = 'application/pdf';
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const CSV_MIME_TYPES = ['text/csv', 'application/csv'];
+const MARKDOWN_MIME_TYPES = ['text/markdown', 'text/x-markdown'];
+
+const MB = 1024 * 1024;
+const SIZE_LIMITS: Record<string, number> = {
+  'image/svg+xml': 1 * MB,
+  image: 20 * MB,
+  font: 5 * MB,
+  video: 200 * MB,
+  text: 5 * MB,
+  [PDF_MIME_TYPE]: 30 * MB,
+  [DOCX_MIME_TYPE]: 30 * MB,
+  application: 100 * MB,
+};
+
+// Types a browser or client may report under a different name
+const MIME_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/x-icon': 'image/vnd.microsoft.icon',
+  'application/x-zip-compressed': 'application/zip',
+  'application/x-gzip': 'application/gzip',
+  'application/x-rar-compressed': 'application/vnd.rar',
+  'font/x-woff': 'font/woff',
+  'application/font-woff': 'font/woff',
+  'application/x-font-ttf': 'font/ttf',
+  'application/x-font-otf': 'font/otf',
+  'video/x-m4v': 'video/mp4',
+};
+
+// Plain UTF-8 content is compatible with any of these declared types
+const TEXT_LIKE_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/csv',
+  'application/javascript',
+];
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink';
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+
+// Static drawing elements only: no scripting, foreign content or animation (which can rewrite hrefs)
+const SVG_ALLOWED_ELEMENTS = new Set(
+  `
+  svg g defs symbol use title desc a view style image path rect circle ellipse line polyline
+  polygon text tspan textPath linearGradient radialGradient stop pattern clipPath mask marker
+  filter feBlend feColorMatrix feComponentTransfer feComposite feConvolveMatrix feDiffuseLighting
+  feDisplacementMap feDistantLight feDropShadow feFlood feFuncA feFuncB feFuncG feFuncR
+  feGaussianBlur feImage feMerge feMergeNode feMorphology feOffset fePointLight
+  feSpecularLighting feSpotLight feTile feTurbulence
+  `
+    .trim()
+    .split(/\s+/)
+);
+
+const SVG_ALLOWED_ATTRIBUTES = new Set(
+  `
+  id class style lang role aria-label aria-hidden xml:space xml:lang version viewBox
+  preserveAspectRatio width height x y transform href xlink:href xlink:title target type media d
+  x1 y1 x2 y2 cx cy r rx ry points pathLength dx dy rotate textLength lengthAdjust startOffset
+  method spacing side fill fill-opacity fill-rule stroke stroke-width stroke-linecap
+  stroke-linejoin stroke-miterlimit stroke-dasharray stroke-dashoffset stroke-opacity opacity
+  color display visibility overflow clip-path clip-rule mask filter marker-start marker-mid
+  marker-end stop-color stop-opacity font-family font-size font-style font-weight font-variant
+  letter-spacing word-spacing text-anchor text-decoration dominant-baseline alignment-baseline
+  baseline-shift writing-mode direction paint-order vector-effect shape-rendering text-rendering
+  image-rendering color-interpolation color-interpolation-filters flood-color flood-opacity
+  lighting-color mix-blend-mode isolation gradientUnits gradientTransform spreadMethod fx fy fr
+  offset patternUnits patternContentUnits patternTransform clipPathUnits maskUnits
+  maskContentUnits markerWidth markerHeight markerUnits refX refY orient filterUnits
+  primitiveUnits in in2 result stdDeviation mode operator k1 k2 k3 k4 values tableValues slope
+  intercept amplitude exponent scale xChannelSelector yChannelSelector baseFrequency numOctaves
+  seed stitchTiles radius kernelMatrix order divisor bias targetX targetY edgeMode preserveAlpha
+  surfaceScale diffuseConstant specularConstant specularExponent azimuth elevation z pointsAtX
+  pointsAtY pointsAtZ limitingConeAngle kernelUnitLength
+  `
+    .trim()
+    .split(/\s+/)
+);
+
+// Links may only point inside the document or embed a raster image
+const SVG_SAFE_REFERENCE = /^(#[\w.:-]*|data:image\/(png|jpe?g|gif|webp);base64,[a-z0-9+/=\s]*)$/i;
+const SVG_URL_PATTERN = /url\(\s*(['"]?)([\s\S]*?)\1\s*\)/gi;
+const SVG_SCRIPT_PATTERN = /(javascript|vbscript):|expression\s*\(/i;
+
+const XML_ELEMENT_NODE = 1;
+const XML_TEXT_NODE = 3;
+const XML_CDATA_SECTION_NODE = 4;
+const XML_PROCESSING_INSTRUCTION_NODE = 7;
+
+// Separates a line's font height from its text while a PDF is being rendered
+const PDF_HEIGHT_MARK = '\u0001';
+const BULLET_PATTERN = /^[\u2022\u25cf\u25aa\u25e6\u2023\u2043\u2013\u2014*-]\s*/;
+
+interface PdfTextItem {
+  str: string;
+  transform: number[];
+  height?: number;
+}
+
+interface PdfPage {
+  getTextContent(options: { normalizeWhitespace: boolean }): Promise<{ items: PdfTextItem[] }>;
+}
+
+interface HtmlTableNode {
+  querySelectorAll(selector: string): ArrayLike<HtmlTableNode>;
+  textContent: string | null;
+}
+
 export class FileProcessor {
   async downloadFile(url: string, token: string): Promise<Buffer> {
     try {
@@ -41,7 +199,10 @@ export class FileProcessor {
   async processImage(buffer: Buffer): Promise<{ base64: string; mimeType: string }> {
     try {
       const base64 = buffer.toString('base64');
-      const mimeType = this.detectImageMimeType(buffer);
+      const mimeType = this.detectMimeType(buffer);
+      if (!mimeType?.startsWith('image/')) {
+        throw new Error(`Not an image (detected ${mimeType || 'unknown type'})`);
+      }
 
       return { base64, mimeType };
     } catch (error) {
@@ -50,28 +211,343 @@ export class FileProcessor {
     }
   }
 
-  private detectImageMimeType(buffer: Buffer): string {
-    const header = buffer.slice(0, 12).toString('hex');
+  detectMimeType(buffer: Buffer): string | undefined {
+    const hex = buffer.subarray(0, 16).toString('hex');
+    const ascii = buffer.subarray(0, 16).toString('latin1');
+
+    // Images
+    if (hex.startsWith('89504e470d0a1a0a')) return 'image/png';
+    if (hex.startsWith('ffd8ff')) return 'image/jpeg';
+    if (ascii.startsWith('GIF87a') || ascii.startsWith('GIF89a')) return 'image/gif';
+    if (ascii.startsWith('RIFF') && ascii.substring(8, 12) === 'WEBP') return 'image/webp';
+    if (
+      ascii.startsWith('BM') &&
+      buffer.length >= 18 &&
+      [12, 40, 56, 108, 124].includes(buffer.readUInt32LE(14))
+    ) {
+      return 'image/bmp';
+    }
+    if (hex.startsWith('00000100')) return 'image/vnd.microsoft.icon';
+    if (hex.startsWith('49492a00') || hex.startsWith('4d4d002a')) return 'image/tiff';
+
+    // ISO base media (AVIF/HEIC images, MP4/MOV video) share the ftyp box
+    if (ascii.substring(4, 8) === 'ftyp') {
+      const brand = ascii.substring(8, 12);
+      if (brand === 'avif' || brand === 'avis') return 'image/avif';
+      if (['heic', 'heix', 'mif1', 'msf1'].includes(brand)) return 'image/heic';
+      if (brand === 'qt  ') return 'video/quicktime';
+      return 'video/mp4';
+    }
+
+    // Video
+    if (hex.startsWith('1a45dfa3')) {
+      return buffer.subarray(0, 64).includes('webm') ? 'video/webm' : 'video/x-matroska';
+    }
+    if (ascii.startsWith('RIFF') && ascii.substring(8, 12) === 'AVI ') return 'video/x-msvideo';
+
+    // Fonts
+    if (ascii.startsWith('wOFF')) return 'font/woff';
+    if (ascii.startsWith('wOF2')) return 'font/woff2';
+    if (ascii.startsWith('OTTO')) return 'font/otf';
+    if (hex.startsWith('00010000')) return 'font/ttf';
+
+    // Documents and archives
+    if (ascii.startsWith('%PDF-')) return PDF_MIME_TYPE;
+    if (hex.startsWith('504b0304') || hex.startsWith('504b0506')) {
+      // Office files are zips; their part names are stored uncompressed in the local headers
+      const head = buffer.subarray(0, 64 * 1024);
+      if (head.includes('word/')) return DOCX_MIME_TYPE;
+      if (head.includes('xl/'))
+        return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+      if (head.includes('ppt/'))
+        return 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+      return 'application/zip';
+    }
+    if (hex.startsWith('1f8b')) return 'application/gzip';
+    if (ascii.startsWith('Rar!\x1a\x07')) return 'application/vnd.rar';
+    if (hex.startsWith('377abcaf271c')) return 'application/x-7z-compressed';
+    if (buffer.length > 262 && buffer.subarray(257, 262).toString('latin1') === 'ustar') {
+      return 'application/x-tar';
+    }
+
+    return this.detectTextMimeType(buffer);
+  }
+
+  private detectTextMimeType(buffer: Buffer): string | undefined {
+    if (buffer.subarray(0, 8192).includes(0)) return undefined;
 
-    if (header.startsWith('89504e47')) return 'image/png';
-    if (header.startsWith('ffd8ff')) return 'image/jpeg';
-    if (header.startsWith('47494638')) return 'image/gif';
-    if (header.startsWith('52494646') && buffer.slice(8, 12).toString() === 'WEBP') {
-      return 'image/webp';
+    let text: string;
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    } catch {
+      return undefined;
     }
 
-    return 'image/png'; // default
+    // Skip the BOM, XML prolog, comments and doctype to find the root element
+    const head = text
+      .substring(0, 4096)
+      .replace(/^\uFEFF/, '')
+      .replace(/<\?xml[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>[]*(\[[\s\S]*?\])?\s*>/gi, '')
+      .trimStart();
+
+    if (/^<svg[\s>]/i.test(head)) return 'image/svg+xml';
+    if (/^<(!doctype\s+html|html[\s>])/i.test(head)) return 'text/html';
+    return 'text/plain';
+  }
+
+  isAllowedType(mimeType: string, allowedTypes: string[]): boolean {
+    return allowedTypes.some((type) => {
+      if (type.endsWith('/*')) {
+        return mimeType.startsWith(type.slice(0, -1));
+      }
+      return mimeType === type;
+    });
+  }
+
+  getSizeLimit(mimeType: string): number {
+    return SIZE_LIMITS[mimeType] ?? SIZE_LIMITS[mimeType.split('/')[0]] ?? SIZE_LIMITS.application;
+  }
+
+  // Parses the SVG and rebuilds it from allow-listed elements and attributes, so
+  // entity-encoded or otherwise obfuscated payloads are judged on their decoded values
+  sanitizeSvg(svg: string): { svg: string; removed: string[] } {
+    const removed = new Set<string>();
+    let fatal = false;
+
+    let document: Document | undefined;
+    try {
+      document = new DOMParser({
+        errorHandler: {
+          warning: () => undefined,
+          error: () => undefined,
+          fatalError: () => {
+            fatal = true;
+          },
+        },
+      }).parseFromString(svg, 'image/svg+xml');
+    } catch {
+      fatal = true;
+    }
+
+    const root = document?.documentElement;
+    if (fatal || !root || root.localName !== 'svg' || !this.isSvgElement(root)) {
+      return { svg: '', removed: ['malformed SVG'] };
+    }
+
+    // Only the root element is serialised, which drops the doctype, entity declarations
+    // and processing instructions such as xml-stylesheet
+    if (document!.doctype) removed.add('DOCTYPE/entity declarations');
+    for (const node of Array.from(document!.childNodes)) {
+      if (node.nodeType === XML_PROCESSING_INSTRUCTION_NODE) removed.add('external stylesheets');
+    }
+
+    this.sanitizeSvgElement(root, removed);
+
+    return { svg: new XMLSerializer().serializeToString(root), removed: Array.from(removed) };
+  }
+
+  private isSvgElement(element: Element): boolean {
+    // Hand-written SVGs often leave out the xmlns declaration altogether
+    return !element.namespaceURI || element.namespaceURI === SVG_NAMESPACE;
+  }
+
+  private sanitizeSvgElement(element: Element, removed: Set<string>): void {
+    for (const attribute of Array.from(element.attributes)) {
+      const label = this.checkSvgAttribute(attribute);
+      if (label) {
+        element.removeAttributeNode(attribute);
+        removed.add(label);
+      } else if (attribute.localName === 'style' && !attribute.namespaceURI) {
+        attribute.value = this.sanitizeSvgCss(attribute.value, removed);
+      }
+    }
+
+    for (const child of Array.from(element.childNodes)) {
+      if (child.nodeType === XML_ELEMENT_NODE) {
+        const childElement = child as Element;
+        if (this.isSvgElement(childElement) && SVG_ALLOWED_ELEMENTS.has(childElement.localName)) {
+          this.sanitizeSvgElement(childElement, removed);
+        } else {
+          element.removeChild(child);
+          removed.add(`<${childElement.localName}>`);
+        }
+      } else if (child.nodeType === XML_TEXT_NODE || child.nodeType === XML_CDATA_SECTION_NODE) {
+        const text = child as CharacterData;
+        if (element.localName === 'style') text.data = this.sanitizeSvgCss(text.data, removed);
+      } else {
+        // Comments, processing instructions and entity references carry nothing worth keeping
+        element.removeChild(child);
+      }
+    }
+  }
+
+  // Returns why the attribute has to go, or undefined when it can stay
+  private checkSvgAttribute(attribute: Attr): string | undefined {
+    const { name, localName, namespaceURI, value } = attribute;
+
+    if (name === 'xmlns' || name.startsWith('xmlns:')) {
+      return [SVG_NAMESPACE, XLINK_NAMESPACE].includes(value) ? undefined : 'foreign namespaces';
+    }
+    if (/^on/i.test(localName)) return 'event handler attributes';
+
+    const key =
+      namespaceURI === XLINK_NAMESPACE
+        ? `xlink:${localName}`
+        : namespaceURI === XML_NAMESPACE
+          ? `xml:${localName}`
+          : namespaceURI
+            ? undefined
+            : name;
+    if (!key || !SVG_ALLOWED_ATTRIBUTES.has(key)) return `${name} attributes`;
+
+    if (key === 'href' || key === 'xlink:href') {
+      return SVG_SAFE_REFERENCE.test(value.trim()) ? undefined : 'script or external links';
+    }
+    if (SVG_SCRIPT_PATTERN.test(value)) return 'script URLs';
+    if (key !== 'style' && this.hasExternalUrl(value)) return 'external references';
+    return undefined;
+  }
+
+  private sanitizeSvgCss(css: string, removed: Set<string>): string {
+    // Resolve CSS escapes first so \69mport or \6a avascript can't slip past the checks
+    const decoded = css.replace(/\\([0-9a-f]{1,6})\s?|\\([^\n0-9a-f])/gi, (_, hex, char) =>
+      hex ? String.fromCodePoint(Math.min(parseInt(hex, 16), 0x10ffff)) : char
+    );
+
+    let result = decoded.replace(/@import[^;]*;?/gi, () => {
+      removed.add('CSS imports');
+      return '';
+    });
+    result = result.replace(SVG_URL_PATTERN, (match, _quote, target: string) => {
+      if (SVG_SAFE_REFERENCE.test(target.trim())) return match;
+      removed.add('external references');
+      return 'none';
+    });
+    if (SVG_SCRIPT_PATTERN.test(result)) {
+      removed.add('script URLs');
+      return '';
+    }
+    return result;
+  }
+
+  private hasExternalUrl(value: string): boolean {
+    return Array.from(value.matchAll(SVG_URL_PATTERN)).some(
+      (match) => !SVG_SAFE_REFERENCE.test(match[2].trim())
+    );
+  }
+
+  async validateFile(
+    buffer: Buffer,
+    allowedTypes: string[],
+    declaredType?: string
+  ): Promise<FileValidationResult> {
+    const reject = (rejection: FileRejection): FileValidationResult => {
+      logger.warn('File rejected', { ...rejection, declaredType, size: buffer.length });
+      return { valid: false, buffer, rejection, warnings: [] };
+    };
+
+    if (buffer.length === 0) {
+      return reject({ code: 'empty', message: 'The file is empty.' });
+    }
+
+    const detectedType = this.detectMimeType(buffer);
+    if (!detectedType) {
+      return reject({
+        code: 'unknown_type',
+        message: "I couldn't recognise what kind of file this is.",
+      });
+    }
+
+    const declared =
+      declaredType && declaredType !== 'application/octet-stream'
+        ? MIME_ALIASES[declaredType] || declaredType
+        : undefined;
+    let mimeType = detectedType;
+
+    if (declared && declared !== detectedType) {
+      // Plain text can legitimately be CSS, CSV, Markdown, JSON and so on
+      const textCompatible =
+        detectedType === 'text/plain' &&
+        (declared.startsWith('text/') || TEXT_LIKE_TYPES.includes(declared));
+      if (!textCompatible) {
+        return reject({
+          code: 'type_mismatch',
+          message: `It claims to be ${declared}, but its contents look like ${detectedType}.`,
+          detectedType,
+        });
+      }
+      mimeType = declared;
+    }
+
+    if (!this.isAllowedType(mimeType, allowedTypes)) {
+      return reject({
+        code: 'type_not_allowed',
+        message: `${mimeType} files aren't allowed. Allowed types: ${allowedTypes.join(', ')}`,
+        detectedType: mimeType,
+      });
+    }
+
+    const limit = this.getSizeLimit(mimeType);
+    if (buffer.length > limit) {
+      return reject({
+        code: 'too_large',
+        message: `It's ${(buffer.length / MB).toFixed(1)} MB; the limit for ${mimeType} is ${limit / MB} MB.`,
+        detectedType: mimeType,
+      });
+    }
+
+    if (mimeType === 'image/svg+xml') {
+      const { svg, removed } = this.sanitizeSvg(buffer.toString('utf-8'));
+      if (!svg) {
+        return reject({
+          code: 'unsafe_svg',
+          message: 'Nothing usable was left in the SVG after removing unsafe content.',
+          detectedType: mimeType,
+        });
+      }
+
+      return {
+        valid: true,
+        mimeType,
+        buffer: Buffer.from(svg, 'utf-8'),
+        warnings: removed.length > 0 ? [`Removed unsafe SVG content: ${removed.join(', ')}`] : [],
+      };
+    }
+
+    return { valid: true, mimeType, buffer, warnings: [] };
+  }
+
+  // Raster formats optimizeImage can recompress without changing the file type
+  canOptimizeImage(mimeType: string): boolean {
+    return OPTIMIZABLE_IMAGE_TYPES.includes(mimeType);
+  }
+
+  canExtractText(mimeType: string): boolean {
+    return (
+      mimeType.startsWith('text/') ||
+      [PDF_MIME_TYPE, DOCX_MIME_TYPE, ...CSV_MIME_TYPES].includes(mimeType)
+    );
   }
 
   async extractTextFromFile(buffer: Buffer, mimeType: string): Promise<string> {
     try {
-      // For now, handle text files
-      if (mimeType.startsWith('text/')) {
+      if (mimeType === PDF_MIME_TYPE) {
+        return await this.extractPdfText(buffer);
+      }
+
+      if (mimeType === DOCX_MIME_TYPE) {
+        return await this.extractDocxText(buffer);
+      }
+
+      if (CSV_MIME_TYPES.includes(mimeType)) {
+        return this.csvToMarkdown(buffer.toString('utf-8'));
+      }
+
+      // Markdown and plain text already carry their own structure
+      if (MARKDOWN_MIME_TYPES.includes(mimeType) || mimeType.startsWith('text/')) {
         return buffer.toString('utf-8');
       }
 
-      // For PDF and DOCX, you would integrate libraries like pdf-parse or mammoth
-      // For now, return empty string for unsupported types
       logger.warn('Unsupported file type for text extraction', { mimeType });
       return '';
     } catch (error) {
@@ -80,11 +556,238 @@ export class FileProcessor {
     }
   }
 
-  async optimizeImage(buffer: Buffer): Promise<Buffer> {
-    // In a real implementation, you would use libraries like sharp for image optimization
-    // For now, return the buffer as-is
-    logger.info('Image optimization requested (not implemented)');
-    return buffer;
+  private async extractPdfText(buffer: Buffer): Promise<string> {
+    const result = await pdfParse(buffer, {
+      pagerender: (page: PdfPage) => this.renderPdfPage(page),
+    });
+
+    const lines = result.text.split('\n').map((line) => {
+      const [height, text] = line.split(PDF_HEIGHT_MARK).slice(-2);
+      return line.includes(PDF_HEIGHT_MARK)
+        ? { height: parseFloat(height), text: text.trim() }
+        : { height: 0, text: line.trim() };
+    });
+
+    // Body text is the most common font height; noticeably larger short lines are headings
+    const heightCounts = new Map<number, number>();
+    for (const line of lines) {
+      if (line.text && line.height) {
+        heightCounts.set(line.height, (heightCounts.get(line.height) || 0) + line.text.length);
+      }
+    }
+    const bodyHeight = Array.from(heightCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+
+    const output: string[] = [];
+    for (const { height, text } of lines) {
+      if (!text) {
+        if (output[output.length - 1] !== '') output.push('');
+        continue;
+      }
+
+      const ratio = bodyHeight ? height / bodyHeight : 1;
+      if (ratio >= 1.2 && text.length <= 120) {
+        const level = ratio >= 1.8 ? '#' : ratio >= 1.4 ? '##' : '###';
+        output.push('', `${level} ${text}`, '');
+      } else if (BULLET_PATTERN.test(text)) {
+        output.push(`- ${text.replace(BULLET_PATTERN, '')}`);
+      } else {
+        output.push(text);
+      }
+    }
+
+    return output
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private async renderPdfPage(page: PdfPage): Promise<string> {
+    const { items } = await page.getTextContent({ normalizeWhitespace: true });
+    const lines: { y: number; height: number; text: string }[] = [];
+
+    // Text items on the same baseline belong to one visual line
+    for (const item of items) {
+      const y = item.transform[5];
+      const height = Math.round((Math.abs(item.transform[3]) || item.height || 0) * 10) / 10;
+      const last = lines[lines.length - 1];
+
+      if (last && Math.abs(last.y - y) < Math.max(height, last.height) / 2) {
+        last.text += item.str;
+        last.height = Math.max(last.height, height);
+      } else {
+        // A gap wider than a line and a half marks a new paragraph
+        if (last && Math.abs(last.y - y) > Math.max(height, last.height) * 1.8) {
+          lines.push({ y, height: 0, text: '' });
+        }
+        lines.push({ y, height, text: item.str });
+      }
+    }
+
+    return lines.map((l) => `${l.height}${PDF_HEIGHT_MARK}${l.text}`).join('\n') + '\n';
+  }
+
+  private async extractDocxText(buffer: Buffer): Promise<string> {
+    const { value: html, messages } = await mammoth.convertToHtml({ buffer });
+    if (messages.length > 0) {
+      logger.warn('DOCX conversion warnings', { messages: messages.map((m) => m.message) });
+    }
+
+    const turndown = new TurndownService({ headingStyle: 'atx', bulletListMarker: '-' });
+    turndown.addRule('table', {
+      filter: 'table',
+      replacement: (_content, node) => {
+        const rows = Array.from((node as unknown as HtmlTableNode).querySelectorAll('tr')).map(
+          (row) =>
+            Array.from(row.querySelectorAll('th, td')).map((cell) =>
+              (cell.textContent || '').trim()
+            )
+        );
+        return `\n\n${this.toMarkdownTable(rows)}\n\n`;
+      },
+    });
+
+    return turndown.turndown(html).trim();
+  }
+
+  private csvToMarkdown(csv: string): string {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < csv.length; i++) {
+      const char = csv[i];
+
+      if (quoted) {
+        if (char === '"' && csv[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && csv[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return this.toMarkdownTable(rows.filter((r) => r.some((cell) => cell.trim())));
+  }
+
+  private toMarkdownTable(rows: string[][]): string {
+    if (rows.length === 0) return '';
+
+    const width = Math.max(...rows.map((r) => r.length));
+    const format = (cells: string[]) =>
+      `| ${Array.from({ length: width }, (_, i) =>
+        (cells[i] || '')
+          .trim()
+          .replace(/\|/g, '\\|')
+          .replace(/\s*\n\s*/g, ' ')
+      ).join(' | ')} |`;
+
+    const [header, ...body] = rows;
+    return [
+      format(header),
+      `| ${Array(width).fill('---').join(' | ')} |`,
+      ...body.map(format),
+    ].join('\n');
+  }
+
+  // The encoded format of an image, e.g. "jpeg" or "avif"; undefined when sharp can't tell
+  async detectImageFormat(buffer: Buffer): Promise<string | undefined> {
+    const { format, compression } = await sharp(buffer).metadata();
+    // sharp reports AVIF by its HEIF container
+    return format === 'heif' && compression === 'av1' ? 'avif' : format;
+  }
+
+  async optimizeImage(buffer: Buffer, maxWidth: number = MAX_IMAGE_WIDTH): Promise<Buffer> {
+    try {
+      const image = sharp(buffer, { animated: true });
+      const format = await this.detectImageFormat(buffer);
+
+      // The result replaces the original file, so it has to stay in the same format;
+      // anything we can't re-encode that way (SVG, TIFF, HEIC, ...) is left untouched
+      if (!format || !this.canOptimizeImage(`image/${format}`)) {
+        return buffer;
+      }
+
+      const resized = image.rotate().resize({ width: maxWidth, withoutEnlargement: true });
+      const optimized =
+        format === 'png'
+          ? await resized.png({ compressionLevel: 9, adaptiveFiltering: true }).toBuffer()
+          : format === 'webp'
+            ? await resized.webp({ quality: 80 }).toBuffer()
+            : format === 'gif'
+              ? await resized.gif().toBuffer()
+              : format === 'avif'
+                ? await resized.avif({ quality: 50 }).toBuffer()
+                : await resized.jpeg({ quality: 80, mozjpeg: true }).toBuffer();
+
+      // Never hand back something bigger than what we were given
+      return optimized.length < buffer.length ? optimized : buffer;
+    } catch (error) {
+      logger.error('Failed to optimize image', { error });
+      throw error;
+    }
+  }
+
+  // Produces AVIF + WebP at each responsive width, plus a JPEG/PNG fallback for
+  // browsers without either
+  async generateResponsiveVariants(buffer: Buffer): Promise<OptimizedImage> {
+    try {
+      const metadata = await sharp(buffer).metadata();
+      const originalWidth = Math.min(metadata.width || MAX_IMAGE_WIDTH, MAX_IMAGE_WIDTH);
+      const fallbackFormat: ImageFormat = metadata.hasAlpha ? 'png' : 'jpeg';
+
+      const widths = [...RESPONSIVE_WIDTHS.filter((w) => w < originalWidth), originalWidth];
+      const variants: ImageVariant[] = [];
+
+      for (const width of widths) {
+        const base = sharp(buffer).rotate().resize({ width, withoutEnlargement: true });
+
+        variants.push({
+          width,
+          format: 'avif',
+          buffer: await base.clone().avif({ quality: 50 }).toBuffer(),
+        });
+        variants.push({
+          width,
+          format: 'webp',
+          buffer: await base.clone().webp({ quality: 80 }).toBuffer(),
+        });
+        variants.push({
+          width,
+          format: fallbackFormat,
+          buffer:
+            fallbackFormat === 'png'
+              ? await base.clone().png({ compressionLevel: 9, adaptiveFiltering: true }).toBuffer()
+              : await base.clone().jpeg({ quality: 80, mozjpeg: true }).toBuffer(),
+        });
+      }
+
+      return { originalBytes: buffer.length, fallbackFormat, variants };
+    } catch (error) {
+      logger.error('Failed to generate responsive variants', { error });
+      throw error;
+    }
   }
 
   async analyzeCodeFile(content: string, filePath: string): Promise<{
@@ -136,18 +839,6 @@ export class FileProcessor {
     return { language, linesOfCode, complexity };
   }
 
-  async validateFile(buffer: Buffer, allowedTypes: string[]): Promise<boolean> {
-    const mimeType = this.detectImageMimeType(buffer);
-
-    return allowedTypes.some((type) => {
-      if (type.endsWith('/*')) {
-        const category = type.split('/')[0];
-        return mimeType.startsWith(category + '/');
-      }
-      return mimeType === type;
-    });
-  }
-
   async getTempFilePath(filename: string): Promise<string> {
     const tempDir = path.join(process.cwd(), 'tmp');
     await fs.mkdir(tempDir, { recursive: true });
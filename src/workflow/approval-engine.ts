@@ -1,38 +1,120 @@
-import { ApprovalWorkflow, ApprovalStage, User, UserRole } from '../types';
+import {
+  ApprovalWorkflow,
+  ApprovalStage,
+  ApprovalPolicy,
+  ApprovalPolicyRule,
+  ApprovalContext,
+  User,
+  UserRole,
+} from '../types';
 import logger from '../utils/logger';
 import { EventEmitter } from 'events';
 
+const ROLE_LEVELS: Record<UserRole, number> = {
+  developer: 1,
+  admin: 2,
+  superadmin: 3,
+};
+
 export class ApprovalEngine extends EventEmitter {
   private workflows: Map<string, ApprovalWorkflow> = new Map();
   private users: Map<string, User> = new Map();
+  private policy: ApprovalPolicy;
 
-  constructor(users: User[]) {
+  constructor(users: User[], policy: ApprovalPolicy = { rules: [] }) {
     super();
     users.forEach((user) => this.users.set(user.userId, user));
+    this.policy = policy;
   }
 
-  createWorkflow(taskId: string, requesterId: string): ApprovalWorkflow {
+  createWorkflow(taskId: string, requesterId: string, context?: ApprovalContext): ApprovalWorkflow {
+    // Anyone can request changes; unknown requesters get the strictest (developer) path
     const requester = this.users.get(requesterId);
-    if (!requester) {
-      throw new Error(`User ${requesterId} not found`);
-    }
+    const requesterRole = requester?.role || 'developer';
+
+    const rule = context ? this.findMatchingRule(context) : undefined;
+    const policyStages = rule ? this.buildPolicyStages(rule, requesterRole) : [];
+    const stages = policyStages.length > 0 ? policyStages : this.buildApprovalStages(requesterRole);
 
-    const stages = this.buildApprovalStages(requester.role);
+    // Start at the first stage someone actually has to sign off on
+    const currentStage = Math.max(0, stages.findIndex((s) => s.required));
+    stages[currentStage].startedAt = new Date();
 
     const workflow: ApprovalWorkflow = {
       taskId,
       stages,
-      currentStage: 0,
+      currentStage,
       requiredApprovals: stages.filter((s) => s.required).length,
       status: 'pending',
+      policyName: policyStages.length > 0 ? rule?.name : undefined,
     };
 
     this.workflows.set(taskId, workflow);
-    logger.info('Approval workflow created', { taskId, stages: stages.length });
+    logger.info('Approval workflow created', {
+      taskId,
+      stages: stages.length,
+      policy: workflow.policyName || 'default',
+    });
 
     return workflow;
   }
 
+  private findMatchingRule(context: ApprovalContext): ApprovalPolicyRule | undefined {
+    return this.policy.rules.find((rule) => {
+      if (rule.websites && !rule.websites.includes(context.websiteName || '')) {
+        return false;
+      }
+
+      if (rule.taskTypes && !rule.taskTypes.includes(context.taskType)) {
+        return false;
+      }
+
+      if (rule.minFilesChanged !== undefined && context.changedFiles.length < rule.minFilesChanged) {
+        return false;
+      }
+
+      if (rule.protectedPaths) {
+        const patterns = rule.protectedPaths.map((p) => this.globToRegExp(p));
+        const touchesProtected = context.changedFiles.some((file) =>
+          patterns.some((pattern) => pattern.test(file))
+        );
+        if (!touchesProtected) return false;
+      }
+
+      return true;
+    });
+  }
+
+  private buildPolicyStages(rule: ApprovalPolicyRule, requesterRole: UserRole): ApprovalStage[] {
+    return (
+      rule.stages
+        // Requester review only applies when a developer asked for the change
+        .filter((stage) => stage.role !== 'developer' || requesterRole === 'developer')
+        .map((stage) => ({
+          level: ROLE_LEVELS[stage.role],
+          role: stage.role,
+          required: stage.required,
+          timeout: stage.timeoutMinutes * 60 * 1000,
+        }))
+    );
+  }
+
+  private globToRegExp(glob: string): RegExp {
+    // A trailing slash means "everything under this directory"
+    const normalized = glob.endsWith('/') ? `${glob}**` : glob;
+    const source = normalized
+      .split('**')
+      .map((part) =>
+        part
+          .split('*')
+          .map((segment) => segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+          .join('[^/]*')
+      )
+      .join('.*');
+
+    return new RegExp(`^${source}$`);
+  }
+
   private buildApprovalStages(requesterRole: UserRole): ApprovalStage[] {
     const stages: ApprovalStage[] = [];
 
@@ -66,10 +148,7 @@ export class ApprovalEngine extends EventEmitter {
   }
 
   async approve(taskId: string, userId: string): Promise<boolean> {
-    const workflow = this.workflows.get(taskId);
-    if (!workflow) {
-      throw new Error(`Workflow for task ${taskId} not found`);
-    }
+    const workflow = this.getPendingWorkflow(taskId);
 
     const user = this.users.get(userId);
     if (!user) {
@@ -105,10 +184,7 @@ export class ApprovalEngine extends EventEmitter {
   }
 
   async reject(taskId: string, userId: string, reason: string): Promise<void> {
-    const workflow = this.workflows.get(taskId);
-    if (!workflow) {
-      throw new Error(`Workflow for task ${taskId} not found`);
-    }
+    const workflow = this.getPendingWorkflow(taskId);
 
     const user = this.users.get(userId);
     if (!user) {
@@ -122,6 +198,34 @@ export class ApprovalEngine extends EventEmitter {
     this.emit('workflow_rejected', workflow, user, reason);
   }
 
+  async requestChanges(taskId: string, userId: string, feedback: string): Promise<void> {
+    const workflow = this.getPendingWorkflow(taskId);
+
+    const user = this.users.get(userId);
+    if (!user) {
+      throw new Error(`User ${userId} not found`);
+    }
+
+    // The current changes won't be merged; a follow-up task carries the feedback
+    workflow.status = 'rejected';
+
+    logger.info('Changes requested', { taskId, userId, feedback });
+
+    this.emit('changes_requested', workflow, user, feedback);
+  }
+
+  // A decision has already been made once the workflow leaves pending, e.g. on a double click
+  private getPendingWorkflow(taskId: string): ApprovalWorkflow {
+    const workflow = this.workflows.get(taskId);
+    if (!workflow) {
+      throw new Error(`Workflow for task ${taskId} not found`);
+    }
+    if (workflow.status !== 'pending') {
+      throw new Error(`Task ${taskId} has already been ${workflow.status}`);
+    }
+    return workflow;
+  }
+
   private async advanceWorkflow(workflow: ApprovalWorkflow): Promise<boolean> {
     const nextStageIndex = workflow.currentStage + 1;
 
@@ -143,6 +247,7 @@ export class ApprovalEngine extends EventEmitter {
 
     // Move to next required stage
     workflow.currentStage = nextStageIndex;
+    nextStage.startedAt = new Date();
     logger.info('Workflow advanced to next stage', {
       taskId: workflow.taskId,
       stage: nextStage.level,
@@ -152,6 +257,54 @@ export class ApprovalEngine extends EventEmitter {
     return false;
   }
 
+  // Called periodically: reminds approvers halfway through a stage, escalates a
+  // timed-out stage to the next role and expires the workflow after the last one
+  checkTimeouts(now: Date = new Date()): void {
+    for (const workflow of this.workflows.values()) {
+      if (workflow.status !== 'pending') continue;
+
+      const stage = workflow.stages[workflow.currentStage];
+      if (!stage?.startedAt) continue;
+
+      const elapsed = now.getTime() - stage.startedAt.getTime();
+
+      if (elapsed >= stage.timeout) {
+        this.escalate(workflow, stage, now);
+      } else if (elapsed >= stage.timeout / 2 && !stage.remindedAt) {
+        stage.remindedAt = now;
+        logger.info('Approval reminder due', { taskId: workflow.taskId, stage: stage.level });
+        this.emit('stage_reminder', workflow, stage);
+      }
+    }
+  }
+
+  private escalate(workflow: ApprovalWorkflow, stage: ApprovalStage, now: Date): void {
+    stage.timedOutAt = now;
+
+    const nextStageIndex = workflow.currentStage + 1;
+    if (nextStageIndex >= workflow.stages.length) {
+      workflow.status = 'expired';
+      logger.warn('Approval workflow expired', { taskId: workflow.taskId, stage: stage.level });
+      this.emit('workflow_expired', workflow);
+      return;
+    }
+
+    // The next role becomes responsible, even if its stage was optional
+    const nextStage = workflow.stages[nextStageIndex];
+    nextStage.required = true;
+    nextStage.startedAt = now;
+    workflow.currentStage = nextStageIndex;
+    workflow.requiredApprovals = workflow.stages.filter((s) => s.required).length;
+
+    logger.warn('Approval stage escalated', {
+      taskId: workflow.taskId,
+      from: stage.level,
+      to: nextStage.level,
+    });
+
+    this.emit('stage_escalated', workflow, stage, nextStage);
+  }
+
   private canApprove(user: User, stage: ApprovalStage): boolean {
     // Superadmin can approve any stage
     if (user.role === 'superadmin') return true;
@@ -196,10 +349,7 @@ export class ApprovalEngine extends EventEmitter {
 
   // Emergency bypass for critical fixes
   emergencyApprove(taskId: string, userId: string): boolean {
-    const workflow = this.workflows.get(taskId);
-    if (!workflow) {
-      throw new Error(`Workflow for task ${taskId} not found`);
-    }
+    const workflow = this.getPendingWorkflow(taskId);
 
     const user = this.users.get(userId);
     if (!user || user.role !== 'superadmin') {
@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { CanUseTool, PermissionResult, query, SDKUserMessage } from '@anthropic-ai/claude-code';
+import { AgentEvent, ClaudeClient } from '../../src/ai/claude-client';
+
+// 1x1 transparent PNG
+const PIXEL_PNG =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+interface FakeRun {
+  userMessages: SDKUserMessage[];
+  decisions: PermissionResult[];
+  inputOpenAtPermission?: boolean;
+}
+
+// Mimics the CLI transport: streamed input is read in the background, and a permission
+// reply only gets through while that input is still open
+function fakeEditingQuery(run: FakeRun, filePath: string): typeof query {
+  return (({
+    prompt,
+    options,
+  }: {
+    prompt: string | AsyncIterable<SDKUserMessage>;
+    options: { canUseTool: CanUseTool };
+  }) =>
+    (async function* () {
+      assert.notEqual(typeof prompt, 'string', 'images need the streaming input form');
+
+      let inputClosed = false;
+      const reader = (async () => {
+        for await (const message of prompt as AsyncIterable<SDKUserMessage>) {
+          run.userMessages.push(message);
+        }
+        inputClosed = true;
+      })();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const input = { file_path: filePath, content: '<h1>Hero</h1>' };
+      yield {
+        type: 'assistant',
+        message: { content: [{ type: 'tool_use', id: 'toolu_1', name: 'Write', input }] },
+      };
+
+      run.inputOpenAtPermission = !inputClosed;
+      const decision = await options.canUseTool('Write', input, {
+        signal: new AbortController().signal,
+      });
+      run.decisions.push(decision);
+
+      yield {
+        type: 'user',
+        message: {
+          role: 'user',
+          content: [
+            {
+              type: 'tool_result',
+              tool_use_id: 'toolu_1',
+              is_error: decision.behavior === 'deny' || undefined,
+            },
+          ],
+        },
+      };
+
+      yield { type: 'result', subtype: 'success' };
+      await reader;
+    })()) as unknown as typeof query;
+}
+
+describe('ClaudeClient.streamResponse with images', () => {
+  it('keeps the input open so edits can be approved while an image is attached', async () => {
+    const cwd = path.resolve('/tmp/fabai-worktree');
+    const target = path.join(cwd, 'fabzen', 'index.html');
+    const run: FakeRun = { userMessages: [], decisions: [] };
+    const client = new ClaudeClient(fakeEditingQuery(run, target));
+    const events: AgentEvent[] = [];
+
+    await client.streamResponse('U1', 'Make the hero look like this screenshot', () => undefined, {
+      cwd,
+      images: [{ base64: PIXEL_PNG, mimeType: 'image/png' }],
+      permissions: { profile: 'edit-in-website', websitePath: 'fabzen' },
+      onEvent: (event) => events.push(event),
+    });
+
+    assert.equal(run.inputOpenAtPermission, true);
+    assert.equal(run.decisions[0]?.behavior, 'allow');
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['tool_use', 'tool_result']
+    );
+    assert.deepEqual(events[1], { type: 'tool_result', toolUseId: 'toolu_1', isError: false });
+
+    const content = run.userMessages[0].message.content;
+    assert.ok(Array.isArray(content));
+    assert.deepEqual(
+      content.map((block) => block.type),
+      ['image', 'text']
+    );
+  });
+
+  it('still denies edits outside the website folder', async () => {
+    const cwd = path.resolve('/tmp/fabai-worktree');
+    const run: FakeRun = { userMessages: [], decisions: [] };
+    const client = new ClaudeClient(fakeEditingQuery(run, path.join(cwd, 'other', 'index.html')));
+    const events: AgentEvent[] = [];
+
+    await client.streamResponse('U1', 'Use this logo', () => undefined, {
+      cwd,
+      images: [{ base64: PIXEL_PNG, mimeType: 'image/png' }],
+      permissions: { profile: 'edit-in-website', websitePath: 'fabzen' },
+      onEvent: (event) => events.push(event),
+    });
+
+    assert.equal(run.decisions[0]?.behavior, 'deny');
+    assert.deepEqual(events.at(-1), { type: 'tool_result', toolUseId: 'toolu_1', isError: true });
+  });
+});
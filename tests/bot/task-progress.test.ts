@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskProgress } from '../../src/bot/task-progress';
+import { SlackClient } from '../../src/bot/slack-client';
+
+function fakeSlack(updates: string[]): SlackClient {
+  return {
+    sendThreadReply: async () => ({ ts: '2.0' }),
+    updateMessage: async (_channel: string, _ts: string, text: string) => {
+      updates.push(text);
+    },
+    uploadThreadFile: async () => undefined,
+  } as unknown as SlackClient;
+}
+
+describe('TaskProgress', () => {
+  it('counts an edit only once its tool result comes back without an error', async () => {
+    const updates: string[] = [];
+    const progress = new TaskProgress(fakeSlack(updates), 'C1', '1.0', 'task-1', 'Working', 60_000);
+    await progress.start();
+
+    const edit = { file_path: 'fabzen/index.html' };
+    progress.handleAgentEvent({ type: 'tool_use', id: 'a', tool: 'Read', input: edit });
+    progress.handleAgentEvent({ type: 'tool_use', id: 'b', tool: 'Edit', input: edit });
+    progress.handleAgentEvent({ type: 'tool_use', id: 'c', tool: 'Write', input: edit });
+    progress.handleAgentEvent({ type: 'tool_result', toolUseId: 'a', isError: false });
+    progress.handleAgentEvent({ type: 'tool_result', toolUseId: 'b', isError: true });
+    progress.handleAgentEvent({ type: 'tool_result', toolUseId: 'c', isError: false });
+    progress.handleAgentEvent({ type: 'tool_result', toolUseId: 'c', isError: false });
+    await progress.finish('Done');
+
+    assert.match(updates.at(-1)!, /📖 1 read · ✏️ 1 edited/);
+  });
+});
@@ -0,0 +1,112 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  MonorepoManager,
+  PathSecurityError,
+  PathViolation,
+} from '../../src/monorepo/monorepo-manager';
+
+describe('MonorepoManager.resolveWebsiteFilePath', () => {
+  let repoRoot: string;
+  let monorepo: MonorepoManager;
+
+  const rejects = (filePath: string, access: 'read' | 'write', violation: PathViolation) =>
+    assert.rejects(monorepo.resolveWebsiteFilePath('fabzen', filePath, access), (error) => {
+      assert.ok(error instanceof PathSecurityError);
+      assert.equal(error.violation, violation);
+      return true;
+    });
+
+  before(async () => {
+    repoRoot = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'fabai-monorepo-')));
+    await fs.mkdir(path.join(repoRoot, 'fabzen', 'css'), { recursive: true });
+    await fs.mkdir(path.join(repoRoot, 'other'), { recursive: true });
+    await fs.writeFile(path.join(repoRoot, 'fabzen', 'index.html'), '<html></html>');
+    await fs.symlink(path.join(repoRoot, 'other'), path.join(repoRoot, 'fabzen', 'escape'));
+    await fs.symlink(path.join(repoRoot, 'fabzen', 'css'), path.join(repoRoot, 'fabzen', 'styles'));
+
+    monorepo = new MonorepoManager({
+      repoUrl: '',
+      submodulePath: repoRoot,
+      websites: [
+        {
+          name: 'fabzen',
+          path: 'fabzen',
+          buildCommand: 'npm run build',
+          devCommand: 'npm run dev',
+          port: 3000,
+          dependencies: [],
+        },
+      ],
+      buildCommands: {},
+      deploymentBranches: { production: 'main' },
+    });
+  });
+
+  after(async () => {
+    await fs.rm(repoRoot, { recursive: true, force: true });
+  });
+
+  it('resolves paths inside the website folder', async () => {
+    assert.equal(
+      await monorepo.resolveWebsiteFilePath('fabzen', 'css/site.css', 'write'),
+      path.join(repoRoot, 'fabzen', 'css', 'site.css')
+    );
+    assert.equal(
+      await monorepo.resolveWebsiteFilePath('fabzen', './css/../index.html', 'read'),
+      path.join(repoRoot, 'fabzen', 'index.html')
+    );
+  });
+
+  it('rejects ../ traversal out of the website folder', async () => {
+    await rejects('../other/secret.txt', 'read', 'traversal');
+    await rejects('css/../../other/secret.txt', 'write', 'traversal');
+    await rejects('..', 'read', 'traversal');
+  });
+
+  it('rejects absolute paths', async () => {
+    await rejects('/etc/passwd', 'read', 'absolute');
+    await rejects(path.join(repoRoot, 'fabzen', 'index.html'), 'read', 'absolute');
+    await rejects('C:\\Windows\\win.ini', 'read', 'absolute');
+  });
+
+  it('rejects paths containing NUL bytes', async () => {
+    await rejects('index.html\0.png', 'read', 'invalid');
+  });
+
+  it('rejects symlinks that lead outside the website folder', async () => {
+    await rejects('escape/secret.txt', 'read', 'symlink_escape');
+    await rejects('escape/new-file.txt', 'write', 'symlink_escape');
+  });
+
+  it('follows symlinks that stay inside the website folder', async () => {
+    assert.equal(
+      await monorepo.resolveWebsiteFilePath('fabzen', 'styles/site.css', 'write'),
+      path.join(repoRoot, 'fabzen', 'styles', 'site.css')
+    );
+  });
+
+  it('rejects writes to protected paths but allows reading them', async () => {
+    await rejects('.github/workflows/deploy.yml', 'write', 'protected');
+    await rejects('.git/config', 'write', 'protected');
+    await rejects('.env', 'write', 'protected');
+    await rejects('.env.production', 'write', 'protected');
+    await rejects('.gitlab-ci.yml', 'write', 'protected');
+    await rejects('.', 'write', 'invalid');
+
+    assert.equal(
+      await monorepo.resolveWebsiteFilePath('fabzen', '.github/workflows/deploy.yml', 'read'),
+      path.join(repoRoot, 'fabzen', '.github', 'workflows', 'deploy.yml')
+    );
+  });
+
+  it('rejects unknown websites', async () => {
+    await assert.rejects(
+      monorepo.resolveWebsiteFilePath('unknown', 'index.html', 'read'),
+      /not found in configuration/
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { locksConflict, locksOverlap, ResourceLockTable } from '../../src/queue/resource-locks';
+import { ResourceLock } from '../../src/types';
+
+const read = (lockPath: string): ResourceLock => ({ path: lockPath, mode: 'read' });
+const write = (lockPath: string): ResourceLock => ({ path: lockPath, mode: 'write' });
+
+describe('locksOverlap', () => {
+  it('overlaps a website lock with everything inside it', () => {
+    assert.ok(locksOverlap(write('fabzen'), write('fabzen/about.html')));
+    assert.ok(locksOverlap(write('fabzen/css/site.css'), write('fabzen')));
+    assert.ok(locksOverlap(write('fabzen/css'), write('fabzen/css/site.css')));
+  });
+
+  it('keeps sibling files and other websites apart', () => {
+    assert.ok(!locksOverlap(write('fabzen/about.html'), write('fabzen/contact.html')));
+    assert.ok(!locksOverlap(write('fabzen'), write('ludo')));
+  });
+
+  it('compares whole path segments, not string prefixes', () => {
+    assert.ok(!locksOverlap(write('fabzen/css'), write('fabzen/css-legacy/site.css')));
+    assert.ok(!locksOverlap(write('fab'), write('fabzen')));
+  });
+
+  it('ignores separators style and trailing slashes', () => {
+    assert.ok(locksOverlap(write('fabzen/css/'), write('fabzen\\css\\site.css')));
+    assert.ok(locksOverlap(write('fabzen//css'), write('fabzen/css')));
+  });
+});
+
+describe('locksConflict', () => {
+  it('lets readers share a path', () => {
+    assert.ok(!locksConflict(read('fabzen/css'), read('fabzen/css/site.css')));
+  });
+
+  it('makes a writer exclude readers and writers on the same subtree', () => {
+    assert.ok(locksConflict(write('fabzen/css'), read('fabzen/css/site.css')));
+    assert.ok(locksConflict(read('fabzen'), write('fabzen/about.html')));
+    assert.ok(locksConflict(write('fabzen'), write('fabzen')));
+  });
+
+  it('lets writers on separate subtrees run together', () => {
+    assert.ok(!locksConflict(write('fabzen/about.html'), write('fabzen/contact.html')));
+  });
+});
+
+describe('ResourceLockTable', () => {
+  it('reports the tasks holding conflicting locks', () => {
+    const table = new ResourceLockTable();
+    table.acquire('about', [write('fabzen/about.html'), read('fabzen/css')]);
+    table.acquire('contact', [write('fabzen/contact.html'), read('fabzen/css')]);
+
+    assert.deepEqual(table.findConflicts('style', [write('fabzen/css/site.css')]), [
+      'about',
+      'contact',
+    ]);
+    assert.deepEqual(table.findConflicts('pricing', [write('fabzen/pricing.html')]), []);
+    assert.deepEqual(table.findConflicts('site', [write('fabzen')]), ['about', 'contact']);
+  });
+
+  it('ignores the asking task and forgets released locks', () => {
+    const table = new ResourceLockTable();
+    table.acquire('about', [write('fabzen/about.html')]);
+
+    assert.deepEqual(table.findConflicts('about', [write('fabzen/about.html')]), []);
+
+    table.release('about');
+    assert.deepEqual(table.findConflicts('other', [write('fabzen/about.html')]), []);
+    assert.deepEqual(table.getHeld('about'), []);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskQueue } from '../../src/queue/task-queue';
+import { DurationStats } from '../../src/queue/duration-stats';
+import { Task } from '../../src/types';
+
+const MINUTE = 60 * 1000;
+
+const makeTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  type: 'website_update',
+  priority: 'medium',
+  requesterId: 'U1',
+  websiteTarget: 'fabzen',
+  dependencies: [],
+  resources: [{ path: `fabzen/${id}.html`, mode: 'write' }],
+  status: 'queued',
+  estimatedTime: 10 * MINUTE,
+  createdAt: new Date(),
+  description: id,
+  context: { channel: 'C1', threadTs: '1.0' },
+  ...overrides,
+});
+
+function recordDrops(queue: TaskQueue): string[] {
+  const dropped: string[] = [];
+  queue.on('task_dependency_failed', (task: Task, prerequisite: Task) =>
+    dropped.push(`${task.id}<-${prerequisite.id}`)
+  );
+  return dropped;
+}
+
+describe('TaskQueue dependency failures', () => {
+  it('drops everything downstream of a failed task', () => {
+    const queue = new TaskQueue(1);
+    const dropped = recordDrops(queue);
+    const build = makeTask('build');
+    const deploy = makeTask('deploy', { dependencies: ['build'] });
+    const announce = makeTask('announce', { dependencies: ['deploy'] });
+
+    queue.addTask(build);
+    queue.addTask(deploy);
+    queue.addTask(announce);
+    queue.failTask('build', new Error('boom'));
+
+    assert.deepEqual(dropped, ['deploy<-build', 'announce<-deploy']);
+    assert.equal(deploy.status, 'failed');
+    assert.equal(announce.status, 'failed');
+    assert.equal(queue.getActiveTasks().length, 0);
+  });
+
+  it('cancels dependents of a cancelled task instead of failing them', () => {
+    const queue = new TaskQueue(1);
+    const dropped = recordDrops(queue);
+    const deploy = makeTask('deploy', { dependencies: ['build'] });
+
+    queue.addTask(makeTask('build'));
+    queue.addTask(deploy);
+    queue.cancelTask('build');
+
+    assert.deepEqual(dropped, ['deploy<-build']);
+    assert.equal(deploy.status, 'cancelled');
+  });
+
+  it('moves dependents onto a follow-up task, and fails them with it', () => {
+    const queue = new TaskQueue(1);
+    const dropped = recordDrops(queue);
+    const original = makeTask('original');
+    const deploy = makeTask('deploy', { dependencies: ['original'] });
+
+    queue.addTask(original);
+    queue.addTask(deploy);
+    queue.completeTask('original', 'waiting_approval');
+
+    // Changes were requested: the follow-up replaces the original as the prerequisite
+    queue.addTask(makeTask('follow-up'));
+    queue.transferDependents('original', 'follow-up');
+    queue.settleTask(original, 'rejected');
+
+    assert.deepEqual(dropped, []);
+    assert.deepEqual(deploy.dependencies, ['follow-up']);
+    assert.equal(deploy.status, 'queued');
+
+    queue.failTask('follow-up', new Error('boom'));
+    assert.deepEqual(dropped, ['deploy<-follow-up']);
+    assert.equal(deploy.status, 'failed');
+  });
+});
+
+describe('TaskQueue scheduling', () => {
+  const scheduler = { agingIntervalMs: 10 * MINUTE, maxPerRequester: 2, urgentExtraSlots: 0 };
+
+  function recordStarts(queue: TaskQueue): string[] {
+    const started: string[] = [];
+    queue.on('task_started', (task: Task) => started.push(task.id));
+    return started;
+  }
+
+  it('lets a long-waiting task overtake newer higher-priority ones', () => {
+    const queue = new TaskQueue(1, undefined, undefined, scheduler);
+    const started = recordStarts(queue);
+    const ago = (minutes: number) => new Date(Date.now() - minutes * MINUTE);
+
+    queue.addTask(makeTask('running'));
+    queue.addTask(makeTask('fresh-low', { priority: 'low', createdAt: ago(5) }));
+    queue.addTask(makeTask('new-high', { priority: 'high' }));
+    // Waiting three intervals lifts low all the way to urgent
+    queue.addTask(makeTask('aged-low', { priority: 'low', createdAt: ago(35) }));
+
+    queue.completeTask('running');
+    queue.completeTask('aged-low');
+    queue.completeTask('new-high');
+
+    assert.deepEqual(started, ['running', 'aged-low', 'new-high', 'fresh-low']);
+  });
+
+  it('holds back a requester at their quota while someone else is waiting', () => {
+    const queue = new TaskQueue(3, undefined, undefined, scheduler);
+    const started = recordStarts(queue);
+
+    queue.pause();
+    queue.addTask(makeTask('a1'));
+    queue.addTask(makeTask('a2'));
+    queue.addTask(makeTask('a3'));
+    queue.addTask(makeTask('b1', { requesterId: 'U2' }));
+    queue.resume();
+
+    assert.deepEqual(started, ['a1', 'a2', 'b1']);
+    assert.equal(queue.getQueueStatus().metrics.fairnessDeferrals, 1);
+  });
+
+  it('lets a requester past their quota when nobody else is waiting', () => {
+    const queue = new TaskQueue(3, undefined, undefined, scheduler);
+    const started = recordStarts(queue);
+
+    queue.addTask(makeTask('a1'));
+    queue.addTask(makeTask('a2'));
+    queue.addTask(makeTask('a3'));
+
+    assert.deepEqual(started, ['a1', 'a2', 'a3']);
+  });
+});
+
+describe('TaskQueue estimates', () => {
+  const scheduler = { agingIntervalMs: 24 * 60 * MINUTE, maxPerRequester: 4, urgentExtraSlots: 0 };
+  const runWindow = (queue: TaskQueue, taskId: string, now: Date) => {
+    const estimate = queue.getEstimate(taskId, now)!;
+    return [estimate.startsInMs / MINUTE, estimate.finishesInMs / MINUTE];
+  };
+
+  it('plays the queue forward around locks and prerequisites', () => {
+    const queue = new TaskQueue(2, undefined, undefined, scheduler);
+    const now = new Date();
+    const created = (n: number) => new Date(now.getTime() - (10 - n) * 1000);
+    const index = [{ path: 'fabzen/index.html', mode: 'write' as const }];
+
+    queue.pause();
+    queue.addTask(makeTask('a', { resources: index, createdAt: created(1) }));
+    queue.addTask(
+      makeTask('b', { resources: index, estimatedTime: 5 * MINUTE, createdAt: created(2) })
+    );
+    queue.addTask(
+      makeTask('c', { dependencies: ['a'], estimatedTime: 20 * MINUTE, createdAt: created(3) })
+    );
+    queue.addTask(makeTask('d', { estimatedTime: MINUTE, createdAt: created(4) }));
+
+    assert.deepEqual(runWindow(queue, 'a', now), [0, 10]);
+    // Waits for a's lock on the same file even though the second slot is free
+    assert.deepEqual(runWindow(queue, 'b', now), [10, 15]);
+    assert.deepEqual(runWindow(queue, 'c', now), [10, 30]);
+    assert.deepEqual(runWindow(queue, 'd', now), [15, 16]);
+  });
+
+  it('counts down a running task and never expects it to be already done', () => {
+    const queue = new TaskQueue(1, undefined, undefined, scheduler);
+    const running = makeTask('running');
+    queue.addTask(running);
+    queue.addTask(makeTask('next'));
+    const after = (minutes: number) => new Date(running.startedAt!.getTime() + minutes * MINUTE);
+
+    assert.deepEqual(runWindow(queue, 'running', after(4)), [0, 6]);
+    assert.deepEqual(runWindow(queue, 'next', after(4)), [6, 16]);
+    assert.deepEqual(runWindow(queue, 'running', after(15)), [0, 1]);
+  });
+
+  it('uses past durations for the expected and pessimistic finish', () => {
+    const durations = new DurationStats();
+    for (const minutes of [4, 6, 20]) {
+      durations.record('website_update', 'fabzen', minutes * MINUTE);
+    }
+    const queue = new TaskQueue(1, undefined, undefined, scheduler, durations);
+
+    queue.pause();
+    queue.addTask(makeTask('a'));
+    const estimate = queue.getEstimate('a')!;
+
+    assert.equal(estimate.finishesInMs, 6 * MINUTE);
+    assert.equal(estimate.finishesInUpperMs, 20 * MINUTE);
+    assert.equal(estimate.samples, 3);
+  });
+});
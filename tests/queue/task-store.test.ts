@@ -0,0 +1,84 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileTaskStore } from '../../src/queue/task-store';
+import { TaskQueue } from '../../src/queue/task-queue';
+import { Task, TaskStatus } from '../../src/types';
+
+const makeTask = (id: string, status: TaskStatus): Task => ({
+  id,
+  type: 'website_update',
+  priority: 'medium',
+  requesterId: 'U1',
+  websiteTarget: id,
+  dependencies: [],
+  resources: [{ path: id, mode: 'write' }],
+  status,
+  estimatedTime: 1,
+  createdAt: new Date(),
+  description: id,
+  context: { channel: 'C1', threadTs: '1.0' },
+});
+
+describe('JsonFileTaskStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'task-store-'));
+    filePath = path.join(dir, 'tasks.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps saving after a task fails to serialise', async () => {
+    const store = new JsonFileTaskStore(filePath);
+    const broken = makeTask('broken', 'queued');
+    broken.context.self = broken.context;
+
+    await store.save(broken);
+    delete broken.context.self;
+    await store.save(makeTask('later', 'queued'));
+
+    const saved = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    assert.deepEqual(Object.keys(saved).sort(), ['broken', 'later']);
+  });
+
+  it('restores the queue after a restart', async () => {
+    const store = new JsonFileTaskStore(filePath);
+    await store.save(makeTask('waiting', 'queued'));
+    await store.save(makeTask('running', 'processing'));
+    await store.save(makeTask('approving', 'waiting_approval'));
+    await store.save(makeTask('done', 'completed'));
+
+    const restarted = new JsonFileTaskStore(filePath);
+    const queue = new TaskQueue(3, restarted);
+    const started: string[] = [];
+    const approvalLost: string[] = [];
+    queue.on('task_started', (task: Task) => started.push(task.id));
+    queue.on('task_approval_lost', (task: Task) => approvalLost.push(task.id));
+
+    const interrupted = await queue.restore();
+
+    assert.deepEqual(
+      interrupted.map((t) => t.id),
+      ['running']
+    );
+    assert.deepEqual(approvalLost, ['approving']);
+    assert.deepEqual(started, ['waiting']);
+
+    // The queue persists in the background; one more save waits for those writes to land
+    await restarted.save(queue.getActiveTasks()[0]);
+    const reloaded = await new JsonFileTaskStore(filePath).load();
+    assert.deepEqual(Object.fromEntries(reloaded.map((t) => [t.id, t.status])), {
+      waiting: 'processing',
+      running: 'interrupted',
+      approving: 'expired',
+      done: 'completed',
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { FileProcessor } from '../../src/utils/file-processor';
+
+const SVG_OPEN =
+  '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 10 10">';
+
+describe('FileProcessor.sanitizeSvg', () => {
+  const processor = new FileProcessor();
+  const sanitize = (body: string) => processor.sanitizeSvg(`${SVG_OPEN}${body}</svg>`);
+
+  it('keeps ordinary drawing content untouched', () => {
+    const { svg, removed } = sanitize(
+      '<defs><linearGradient id="g"><stop offset="0" stop-color="#fff"/></linearGradient></defs><rect width="10" height="10" fill="url(#g)"/><use href="#g"/>'
+    );
+
+    assert.deepEqual(removed, []);
+    assert.match(svg, /<rect width="10" height="10" fill="url\(#g\)"\/>/);
+    assert.match(svg, /<use href="#g"\/>/);
+  });
+
+  it('removes scripts, foreign content and animation', () => {
+    const { svg, removed } = sanitize(
+      '<script>alert(1)</script><foreignObject><div xmlns="http://www.w3.org/1999/xhtml">x</div></foreignObject><animate attributeName="href" to="javascript:alert(1)"/><circle r="1"/>'
+    );
+
+    assert.doesNotMatch(svg, /script|foreignObject|animate|div/);
+    assert.match(svg, /<circle r="1"\/>/);
+    assert.deepEqual(removed.sort(), ['<animate>', '<foreignObject>', '<script>']);
+  });
+
+  it('removes event handler attributes', () => {
+    const { svg, removed } = sanitize('<rect onload="alert(1)" ONCLICK="alert(2)" width="1"/>');
+
+    assert.match(svg, /<rect width="1"\/>/);
+    assert.deepEqual(removed, ['event handler attributes']);
+  });
+
+  it('judges links on their entity-decoded value', () => {
+    const { svg } = sanitize(
+      '<a xlink:href="&#106;avascript:alert(1)"><text>x</text></a><a href="&#x6A;&#x61;vascript:alert(1)"><text>y</text></a>'
+    );
+
+    assert.doesNotMatch(svg, /href|javascript/i);
+  });
+
+  it('strips links that are not local fragments or raster data URIs', () => {
+    const { svg } = sanitize(
+      '<use href="https://evil.example/sprite.svg#icon"/><use xlink:href="//evil.example/a.svg#b"/><image href="data:image/svg+xml;base64,PHN2Zz4="/><image href="data:image/png;base64,iVBORw0KGgo="/>'
+    );
+
+    assert.doesNotMatch(svg, /evil\.example|svg\+xml/);
+    assert.match(svg, /<image href="data:image\/png;base64,iVBORw0KGgo="\/>/);
+  });
+
+  it('neutralises external and escaped references in CSS', () => {
+    const { svg, removed } = sanitize(
+      '<style>@\\69mport url(https://evil.example/a.css); .a { fill: url(#g) } .b { background: url("https://evil.example/x.png") }</style><rect style="fill: url(https://evil.example/y.png)"/>'
+    );
+
+    assert.doesNotMatch(svg, /evil\.example|@import/);
+    assert.match(svg, /fill: url\(#g\)/);
+    assert.ok(removed.includes('CSS imports'));
+    assert.ok(removed.includes('external references'));
+  });
+
+  it('drops doctype entity declarations and stylesheet instructions', () => {
+    const { svg, removed } = processor.sanitizeSvg(
+      `<?xml-stylesheet href="https://evil.example/a.css"?><!DOCTYPE svg [<!ENTITY x "javascript:alert(1)">]>${SVG_OPEN}<a href="&x;"><text>x</text></a></svg>`
+    );
+
+    assert.doesNotMatch(svg, /DOCTYPE|ENTITY|xml-stylesheet|javascript/);
+    assert.ok(removed.includes('DOCTYPE/entity declarations'));
+    assert.ok(removed.includes('external stylesheets'));
+  });
+
+  it('returns nothing for documents that are not SVG', () => {
+    assert.equal(processor.sanitizeSvg('<html><body>hi</body></html>').svg, '');
+    assert.equal(processor.sanitizeSvg('not xml at all <').svg, '');
+  });
+});
+
+describe('FileProcessor.validateFile with SVGs', () => {
+  const processor = new FileProcessor();
+
+  it('accepts a sanitised copy and warns about what was removed', async () => {
+    const result = await processor.validateFile(
+      Buffer.from(`${SVG_OPEN}<a xlink:href="&#106;avascript:alert(1)"><text>x</text></a></svg>`),
+      ['image/*'],
+      'image/svg+xml'
+    );
+
+    assert.ok(result.valid);
+    assert.doesNotMatch(result.buffer.toString('utf-8'), /javascript/);
+    assert.equal(result.warnings.length, 1);
+  });
+});
+
+describe('FileProcessor.optimizeImage', () => {
+  const processor = new FileProcessor();
+  const image = (background: sharp.RGBA) =>
+    sharp({ create: { width: 64, height: 64, channels: 4, background } });
+
+  it('keeps the source format, which detectImageFormat reports', async () => {
+    const webp = await image({ r: 255, g: 0, b: 0, alpha: 0.5 }).webp({ quality: 100 }).toBuffer();
+    const avif = await image({ r: 0, g: 0, b: 255, alpha: 1 }).avif().toBuffer();
+
+    const optimizedWebp = await processor.optimizeImage(webp);
+    assert.equal(await processor.detectImageFormat(optimizedWebp), 'webp');
+    assert.ok(optimizedWebp.length <= webp.length);
+    assert.equal(await processor.detectImageFormat(await processor.optimizeImage(avif)), 'avif');
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApprovalEngine } from '../../src/workflow/approval-engine';
+import { ApprovalPolicy, User } from '../../src/types';
+
+const USERS: User[] = [
+  { userId: 'DEV', name: 'Dev', role: 'developer', permissions: [] },
+  { userId: 'ADMIN', name: 'Admin', role: 'admin', permissions: [] },
+  { userId: 'ROOT', name: 'Root', role: 'superadmin', permissions: [] },
+];
+
+describe('ApprovalEngine decisions', () => {
+  it('approves a workflow only once', async () => {
+    const engine = new ApprovalEngine(USERS);
+    const approved: string[] = [];
+    engine.on('workflow_approved', (workflow) => approved.push(workflow.taskId));
+    engine.createWorkflow('task-1', 'ADMIN');
+
+    assert.equal(await engine.approve('task-1', 'ADMIN'), true);
+    await assert.rejects(engine.approve('task-1', 'ADMIN'), /already been approved/);
+    assert.deepEqual(approved, ['task-1']);
+  });
+
+  it('refuses to approve after a rejection or a change request', async () => {
+    const engine = new ApprovalEngine(USERS);
+    engine.createWorkflow('rejected', 'ADMIN');
+    engine.createWorkflow('changes', 'ADMIN');
+
+    await engine.reject('rejected', 'ADMIN', 'not needed');
+    await engine.requestChanges('changes', 'ADMIN', 'use the brand colour');
+
+    await assert.rejects(engine.approve('rejected', 'ROOT'), /already been rejected/);
+    await assert.rejects(engine.approve('changes', 'ROOT'), /already been rejected/);
+    await assert.rejects(engine.reject('rejected', 'ROOT', 'again'), /already been rejected/);
+    await assert.rejects(engine.requestChanges('rejected', 'ROOT', 'more'), /already been/);
+  });
+});
+
+describe('ApprovalEngine.checkTimeouts', () => {
+  it('reminds halfway, escalates at the timeout and expires after the last stage', () => {
+    const engine = new ApprovalEngine(USERS);
+    const events: string[] = [];
+    engine.on('stage_reminder', (_workflow, stage) => events.push(`remind ${stage.role}`));
+    engine.on('stage_escalated', (_workflow, from, to) =>
+      events.push(`escalate ${from.role} -> ${to.role}`)
+    );
+    engine.on('workflow_expired', () => events.push('expired'));
+
+    const workflow = engine.createWorkflow('task-1', 'DEV');
+    const createdAt = workflow.stages[0].startedAt!.getTime();
+    const checkAt = (minutes: number) =>
+      engine.checkTimeouts(new Date(createdAt + minutes * 60 * 1000));
+
+    // Developer stage: 30 minutes
+    checkAt(14);
+    assert.deepEqual(events, []);
+    checkAt(15);
+    checkAt(20);
+    assert.deepEqual(events, ['remind developer']);
+    checkAt(30);
+    assert.equal(workflow.stages[workflow.currentStage].role, 'admin');
+
+    // Admin stage: an hour from the escalation
+    checkAt(59);
+    checkAt(60);
+    checkAt(90);
+    assert.equal(workflow.stages[2].required, true);
+    assert.equal(workflow.requiredApprovals, 3);
+
+    // The optional superadmin stage became responsible for the last two hours
+    checkAt(150);
+    checkAt(209);
+    assert.equal(workflow.status, 'pending');
+    checkAt(210);
+    checkAt(500);
+
+    assert.equal(workflow.status, 'expired');
+    assert.deepEqual(events, [
+      'remind developer',
+      'escalate developer -> admin',
+      'remind admin',
+      'escalate admin -> superadmin',
+      'remind superadmin',
+      'expired',
+    ]);
+  });
+});
+
+describe('ApprovalEngine policies', () => {
+  const policy: ApprovalPolicy = {
+    rules: [
+      {
+        name: 'protected',
+        websites: ['fabzen'],
+        protectedPaths: ['checkout/', 'config/*.json', '**/*.php'],
+        stages: [
+          { role: 'developer', required: true, timeoutMinutes: 10 },
+          { role: 'superadmin', required: true, timeoutMinutes: 15 },
+        ],
+      },
+    ],
+  };
+  const policyFor = (changedFiles: string[], websiteName = 'fabzen') =>
+    new ApprovalEngine(USERS, policy).createWorkflow('task-1', 'ADMIN', {
+      websiteName,
+      taskType: 'website_update',
+      changedFiles,
+    }).policyName;
+
+  it('matches directory, single-segment and any-depth globs', () => {
+    assert.equal(policyFor(['index.html', 'checkout/cart/index.html']), 'protected');
+    assert.equal(policyFor(['config/site.json']), 'protected');
+    assert.equal(policyFor(['api/v1/pay.php']), 'protected');
+  });
+
+  it('does not match neighbouring names or deeper paths', () => {
+    assert.equal(policyFor(['checkout.html', 'checkout-v2/index.html']), undefined);
+    assert.equal(policyFor(['config/nested/site.json', 'config/site.jsonx']), undefined);
+    assert.equal(policyFor(['config/siteXjson']), undefined);
+  });
+
+  it('only applies to the websites it names', () => {
+    assert.equal(policyFor(['checkout/index.html'], 'ludo'), undefined);
+  });
+
+  it('skips the requester review stage unless a developer asked', () => {
+    const engine = new ApprovalEngine(USERS, policy);
+    const context = {
+      websiteName: 'fabzen',
+      taskType: 'website_update' as const,
+      changedFiles: ['checkout/index.html'],
+    };
+
+    const byAdmin = engine.createWorkflow('by-admin', 'ADMIN', context);
+    const byDeveloper = engine.createWorkflow('by-dev', 'DEV', context);
+
+    assert.deepEqual(
+      byAdmin.stages.map((s) => [s.role, s.timeout / 60000]),
+      [['superadmin', 15]]
+    );
+    assert.deepEqual(
+      byDeveloper.stages.map((s) => s.role),
+      ['developer', 'superadmin']
+    );
+  });
+});